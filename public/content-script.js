@@ -5,6 +5,109 @@
   const ROOT_ID = "prompter-quick-save-root";
   const QUICK_SAVE_ENABLED_KEY = "prompter.quickSaveEnabled";
   const LANGUAGE_KEY = "prompter.language";
+  const VARIABLE_VALUES_KEY = "prompter.variableValues";
+  // Must match MESSAGE_VERSION in src/shared/messages.ts.
+  const MESSAGE_VERSION = 1;
+  const MESSAGE_BUTTON_CLASS = "prompter-msg-button";
+  const RANGE_START_CLASS = "prompter-range-start";
+
+  const GENERIC_COMPOSER_SELECTORS = [
+    "form textarea",
+    "textarea",
+    "div[contenteditable='true'][data-placeholder]",
+    "div[contenteditable='true']"
+  ];
+
+  /*
+   * One adapter per supported site. Every field is optional; missing ones fall back to the
+   * generic adapter. Site ids match OPTIONAL_SITES / BUILT_IN_SITES in src/shared/sites.ts.
+   *   hosts             - hostnames the adapter applies to (exact or subdomain)
+   *   composerSelectors - tried in order before the generic selectors
+   *   readComposer(el)  - current draft text
+   *   writeComposer(el, text) - insert text at the caret
+   *   messages          - { selector, role(el) -> "user" | "assistant" } for message capture
+   *   titleSuffix       - removed from document.title to get the conversation title
+   *   modelSelectors    - elements whose text names the selected model
+   */
+  const siteAdapters = [
+    {
+      id: "chatgpt",
+      hosts: ["chatgpt.com", "chat.openai.com"],
+      composerSelectors: ["#prompt-textarea", "div.ProseMirror[contenteditable='true']"],
+      messages: {
+        selector: "[data-message-author-role]",
+        role: (el) => (el.getAttribute("data-message-author-role") === "user" ? "user" : "assistant")
+      },
+      titleSuffix: /\s*[-|–]\s*ChatGPT\s*$/i,
+      modelSelectors: ["[data-testid='model-switcher-dropdown-button']", "button[aria-label*='model' i]"]
+    },
+    {
+      id: "claude",
+      hosts: ["claude.ai"],
+      composerSelectors: ["div.ProseMirror[contenteditable='true']"],
+      messages: {
+        selector: "[data-testid='user-message'], .font-claude-message, .font-claude-response",
+        role: (el) => (el.matches("[data-testid='user-message']") ? "user" : "assistant")
+      },
+      titleSuffix: /\s*[-|–]\s*Claude\s*$/i,
+      modelSelectors: ["[data-testid='model-selector-dropdown']"]
+    },
+    {
+      id: "gemini",
+      hosts: ["gemini.google.com"],
+      composerSelectors: ["rich-textarea .ql-editor[contenteditable='true']", "div.ql-editor[contenteditable='true']"],
+      messages: {
+        selector: "user-query, model-response",
+        role: (el) => (el.tagName.toLowerCase() === "user-query" ? "user" : "assistant")
+      },
+      titleSuffix: /\s*[-|–]\s*Gemini\s*$/i,
+      modelSelectors: ["[data-test-id='bard-mode-menu-button']", "bard-mode-switcher button"]
+    },
+    {
+      id: "perplexity",
+      hosts: ["perplexity.ai"],
+      composerSelectors: ["#ask-input", "textarea[placeholder]"],
+      messages: {
+        selector: "[class*='group/query'], [id^='markdown-content-']",
+        role: (el) => (el.matches("[class*='group/query']") ? "user" : "assistant")
+      },
+      titleSuffix: /\s*[-|–]\s*Perplexity\s*$/i,
+      modelSelectors: []
+    },
+    {
+      id: "mistral",
+      hosts: ["chat.mistral.ai"],
+      composerSelectors: ["div.ProseMirror[contenteditable='true']", "textarea[name='message.text']"],
+      messages: {
+        selector: "[data-message-author-role]",
+        role: (el) => (el.getAttribute("data-message-author-role") === "user" ? "user" : "assistant")
+      },
+      titleSuffix: /\s*[-|–]\s*Le Chat\s*$/i,
+      modelSelectors: []
+    }
+  ];
+
+  // Used for any other granted site: composer only, no message capture.
+  const genericAdapter = {
+    id: "generic",
+    hosts: [],
+    composerSelectors: [],
+    messages: null,
+    titleSuffix: null,
+    modelSelectors: []
+  };
+
+  function matchesHost(hostname, host) {
+    return hostname === host || hostname.endsWith(`.${host}`);
+  }
+
+  function pickAdapter() {
+    const hostname = window.location.hostname;
+    const adapter = siteAdapters.find((candidate) => candidate.hosts.some((host) => matchesHost(hostname, host)));
+    return adapter ? { ...genericAdapter, ...adapter } : genericAdapter;
+  }
+
+  const adapter = pickAdapter();
 
   let root = null;
   let panel = null;
@@ -16,39 +119,302 @@
   let minimizeButton = null;
   let saveButton = null;
   let cancelButton = null;
+  let modeButton = null;
+  let savePane = null;
+  let insertPane = null;
+  let pickerSearchInput = null;
+  let pickerList = null;
+  let pickerPrompts = [];
+  let pickerChains = [];
+  let pickerLoading = false;
+  // Progress of a running chain; the service worker keeps it per tab so it survives reloads.
+  let chainRun = null;
+  let composerTarget = null;
+  let examplesInfo = null;
+  let pendingExamples = [];
+  let duplicateInfo = null;
+  // Set when the background reported a near-identical prompt; the next save goes through anyway.
+  let duplicateWarning = null;
+  let messageMenu = null;
+  let messageObserver = null;
+  let messageScanTimer = null;
+  let rangeStart = null;
   let language = "pl";
   let isOpen = false;
+  let mode = "save";
 
   function t(pl, en) {
     return language === "pl" ? pl : en;
   }
 
+  function isInsideWidget(el) {
+    return !!root && root.contains(el);
+  }
+
+  function findComposer() {
+    for (const selector of [...adapter.composerSelectors, ...GENERIC_COMPOSER_SELECTORS]) {
+      const candidates = document.querySelectorAll(selector);
+      for (const el of candidates) {
+        if (!(el instanceof HTMLElement) || isInsideWidget(el)) continue;
+        if (el instanceof HTMLTextAreaElement && el.offsetParent === null) continue;
+        return el;
+      }
+    }
+    return null;
+  }
+
+  function insertIntoTextarea(el, text) {
+    const start = el.selectionStart ?? el.value.length;
+    const end = el.selectionEnd ?? el.value.length;
+    const next = `${el.value.slice(0, start)}${text}${el.value.slice(end)}`;
+
+    // React-controlled textareas ignore direct `value` writes, so go through the native setter.
+    const setter = Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, "value")?.set;
+    if (setter) {
+      setter.call(el, next);
+    } else {
+      el.value = next;
+    }
+    el.dispatchEvent(new Event("input", { bubbles: true }));
+    el.focus();
+    el.setSelectionRange(start + text.length, start + text.length);
+  }
+
+  function insertIntoContentEditable(el, text) {
+    el.focus();
+
+    const selection = window.getSelection();
+    if (selection && !el.contains(selection.anchorNode)) {
+      const range = document.createRange();
+      range.selectNodeContents(el);
+      range.collapse(false);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+
+    // ProseMirror editors listen for beforeinput/insertText, which execCommand still triggers.
+    const inserted = document.execCommand("insertText", false, text);
+    if (!inserted) {
+      el.textContent = `${el.textContent || ""}${text}`;
+      el.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertText", data: text }));
+    }
+  }
+
+  function writeComposer(el, text) {
+    if (adapter.writeComposer) {
+      adapter.writeComposer(el, text);
+    } else if (el instanceof HTMLTextAreaElement) {
+      insertIntoTextarea(el, text);
+    } else {
+      insertIntoContentEditable(el, text);
+    }
+  }
+
+  function readComposer(el) {
+    if (adapter.readComposer) return adapter.readComposer(el).trim();
+    if (el instanceof HTMLTextAreaElement) return el.value.trim();
+    return (el.innerText || el.textContent || "").trim();
+  }
+
+  function insertIntoComposer(text) {
+    const el = composerTarget && composerTarget.isConnected ? composerTarget : findComposer();
+    if (!el) return false;
+
+    writeComposer(el, text);
+    return true;
+  }
+
   function getDraftContent() {
     const selected = window.getSelection()?.toString().trim();
     if (selected) return selected;
 
-    const textSelectors = [
-      "#prompt-textarea",
-      "textarea",
-      "form textarea",
-      "div[contenteditable='true'][data-placeholder]",
-      "div[contenteditable='true']"
-    ];
+    const el = findComposer();
+    return el ? readComposer(el) : "";
+  }
+
+  async function loadRememberedValues() {
+    const result = await chrome.storage.local.get([VARIABLE_VALUES_KEY]);
+    const value = result?.[VARIABLE_VALUES_KEY];
+    return value && typeof value === "object" ? value : {};
+  }
+
+  async function rememberValues(values) {
+    const current = await loadRememberedValues();
+    await chrome.storage.local.set({ [VARIABLE_VALUES_KEY]: { ...current, ...values } });
+  }
+
+  function readConversationTitle() {
+    const raw = document.title.trim();
+    if (!adapter.titleSuffix) return raw;
+    const title = raw.replace(adapter.titleSuffix, "").trim();
+    // A title that is only the site name means there is no named conversation yet.
+    return adapter.titleSuffix.test(` - ${title}`) ? "" : title;
+  }
 
-    for (const selector of textSelectors) {
+  function readModelName() {
+    for (const selector of adapter.modelSelectors) {
       const el = document.querySelector(selector);
-      if (!el) continue;
+      const text = (el?.textContent || "").replace(/\s+/g, " ").trim();
+      if (text && text.length <= 60) return text;
+    }
+    return "";
+  }
+
+  function findMessages() {
+    const source = adapter.messages;
+    if (!source) return [];
+
+    const messages = [];
+    for (const el of document.querySelectorAll(source.selector)) {
+      if (!(el instanceof HTMLElement) || isInsideWidget(el)) continue;
+      // Claude nests response containers; keep only the outermost match.
+      if (messages.some((message) => message.el.contains(el))) continue;
+      messages.push({ el, role: source.role(el) });
+    }
+    return messages;
+  }
+
+  function messageText(el) {
+    // The injected button renders its label with CSS, so innerText stays the message text only.
+    return (el.innerText || el.textContent || "").trim();
+  }
 
-      if (el instanceof HTMLTextAreaElement) {
-        const value = el.value.trim();
-        if (value) return value;
+  // Groups messages into turns: a user message followed by every assistant message until the next user message.
+  function buildTurns(messages) {
+    const turns = [];
+    for (const message of messages) {
+      const text = messageText(message.el);
+      if (!text) continue;
+
+      const last = turns[turns.length - 1];
+      if (message.role === "user" || !last) {
+        turns.push({
+          input: message.role === "user" ? text : "",
+          output: message.role === "user" ? "" : text,
+          els: [message.el]
+        });
+      } else {
+        last.output = last.output ? `${last.output}\n\n${text}` : text;
+        last.els.push(message.el);
       }
+    }
+    return turns;
+  }
+
+  function turnIndexOf(turns, el) {
+    return turns.findIndex((turn) => turn.els.includes(el));
+  }
+
+  function captureMessage(el) {
+    openPanelWithCapture(messageText(el), []);
+  }
+
+  function captureTurn(el) {
+    const turns = buildTurns(findMessages());
+    const turn = turns[turnIndexOf(turns, el)];
+    if (!turn) return;
+    openPanelWithCapture(turn.input || turn.output, [{ input: turn.input, output: turn.output }]);
+  }
+
+  function captureRange(startEl, endEl) {
+    const turns = buildTurns(findMessages());
+    const a = turnIndexOf(turns, startEl);
+    const b = turnIndexOf(turns, endEl);
+    if (a < 0 || b < 0) return;
+
+    const selected = turns.slice(Math.min(a, b), Math.max(a, b) + 1);
+    const first = selected[0];
+    openPanelWithCapture(
+      first.input || first.output,
+      selected.map((turn) => ({ input: turn.input, output: turn.output }))
+    );
+  }
+
+  function setRangeStart(el) {
+    rangeStart?.classList.remove(RANGE_START_CLASS);
+    rangeStart = el;
+    rangeStart?.classList.add(RANGE_START_CLASS);
+  }
+
+  function hideMessageMenu() {
+    if (messageMenu) messageMenu.style.display = "none";
+  }
+
+  function showMessageMenu(el, button) {
+    if (!messageMenu) return;
+    messageMenu.textContent = "";
 
-      const content = (el.textContent || "").trim();
-      if (content) return content;
+    const items = [
+      [t("Zapisz wiadomość", "Save message"), () => captureMessage(el)],
+      [t("Zapisz turę (prompt + odpowiedź)", "Save turn (prompt + response)"), () => captureTurn(el)]
+    ];
+    if (rangeStart && rangeStart !== el && rangeStart.isConnected) {
+      items.push([t("Zapisz zakres do tej wiadomości", "Save range up to here"), () => {
+        captureRange(rangeStart, el);
+        setRangeStart(null);
+      }]);
+      items.push([t("Wyczyść początek zakresu", "Clear range start"), () => setRangeStart(null)]);
+    } else {
+      items.push([t("Zaznacz początek zakresu", "Mark range start"), () => setRangeStart(el)]);
     }
 
-    return "";
+    for (const [label, action] of items) {
+      const item = document.createElement("button");
+      item.type = "button";
+      item.textContent = label;
+      item.addEventListener("click", (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        hideMessageMenu();
+        action();
+      });
+      messageMenu.appendChild(item);
+    }
+
+    const rect = button.getBoundingClientRect();
+    messageMenu.style.display = "flex";
+    messageMenu.style.top = `${Math.min(rect.bottom + 4, window.innerHeight - messageMenu.offsetHeight - 8)}px`;
+    messageMenu.style.left = `${Math.max(8, Math.min(rect.left, window.innerWidth - messageMenu.offsetWidth - 8))}px`;
+  }
+
+  function decorateMessages() {
+    for (const { el } of findMessages()) {
+      if (el.querySelector(`:scope > .${MESSAGE_BUTTON_CLASS}`)) continue;
+
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = MESSAGE_BUTTON_CLASS;
+      button.title = t("Zapisz do Prompter", "Save to Prompter");
+      button.setAttribute("aria-label", button.title);
+      button.addEventListener("click", (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        showMessageMenu(el, button);
+      });
+      el.appendChild(button);
+    }
+  }
+
+  function startMessageButtons() {
+    if (!adapter.messages) return;
+    decorateMessages();
+    messageObserver = new MutationObserver(() => {
+      if (messageScanTimer) return;
+      messageScanTimer = window.setTimeout(() => {
+        messageScanTimer = null;
+        decorateMessages();
+      }, 500);
+    });
+    messageObserver.observe(document.body, { childList: true, subtree: true });
+  }
+
+  function stopMessageButtons() {
+    messageObserver?.disconnect();
+    messageObserver = null;
+    if (messageScanTimer) window.clearTimeout(messageScanTimer);
+    messageScanTimer = null;
+    setRangeStart(null);
+    document.querySelectorAll(`.${MESSAGE_BUTTON_CLASS}`).forEach((button) => button.remove());
   }
 
   function makeTitle(content) {
@@ -117,6 +483,7 @@
         font-size: 14px;
       }
       .prompter-panel input,
+      .prompter-panel select,
       .prompter-panel textarea {
         width: 100%;
         border: 1px solid #3a4b73;
@@ -131,6 +498,126 @@
         min-height: 120px;
         resize: vertical;
       }
+      .prompter-pane {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+      .prompter-picker-list {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        max-height: 280px;
+        overflow: auto;
+      }
+      .prompter-picker-item {
+        display: flex;
+        flex-direction: column;
+        align-items: flex-start;
+        gap: 2px;
+        text-align: left;
+        border: 1px solid #34456c;
+        background: #1a2744;
+        color: #e4ebff;
+        border-radius: 8px;
+        padding: 7px 9px;
+        cursor: pointer;
+      }
+      .prompter-picker-item:hover {
+        border-color: #6f64ff;
+      }
+      .prompter-picker-item strong {
+        font-size: 13px;
+      }
+      .prompter-picker-item small {
+        font-size: 11px;
+        color: #9fb0d6;
+      }
+      .prompter-chain-note {
+        font-size: 12px;
+        color: #ffd7a3;
+        white-space: pre-wrap;
+      }
+      .prompter-chain-steps {
+        margin: 0;
+        padding-left: 18px;
+        font-size: 12px;
+        color: #9fb0d6;
+      }
+      .prompter-chain-steps .done {
+        text-decoration: line-through;
+      }
+      .prompter-chain-steps .current {
+        color: #e4ebff;
+        font-weight: 600;
+      }
+      .prompter-field {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-size: 12px;
+        color: #9fb0d6;
+      }
+      .prompter-examples-info {
+        font-size: 12px;
+        color: #b8ffe2;
+      }
+      .prompter-duplicate-info {
+        font-size: 12px;
+        color: #ffd7a3;
+      }
+      .${MESSAGE_BUTTON_CLASS} {
+        display: inline-flex;
+        margin: 6px 0 0;
+        border: 1px solid #4c5f8d;
+        background: #1a2744;
+        color: #d7e2ff;
+        border-radius: 999px;
+        padding: 2px 8px;
+        font-size: 11px;
+        cursor: pointer;
+        opacity: 0.55;
+      }
+      .${MESSAGE_BUTTON_CLASS}:hover {
+        opacity: 1;
+      }
+      .${MESSAGE_BUTTON_CLASS}::before {
+        content: "+ Prompter";
+      }
+      .${RANGE_START_CLASS} {
+        outline: 2px dashed #6f64ff;
+        outline-offset: 4px;
+      }
+      .prompter-msg-menu {
+        position: fixed;
+        display: none;
+        flex-direction: column;
+        gap: 4px;
+        padding: 6px;
+        border: 1px solid #2f3d63;
+        background: #0f1a33;
+        border-radius: 10px;
+        box-shadow: 0 8px 22px rgba(0, 0, 0, 0.4);
+      }
+      .prompter-msg-menu button {
+        text-align: left;
+        border: 1px solid transparent;
+        background: transparent;
+        color: #e4ebff;
+        border-radius: 6px;
+        padding: 6px 8px;
+        font-size: 12px;
+        cursor: pointer;
+      }
+      .prompter-msg-menu button:hover {
+        background: #1a2744;
+        border-color: #4c5f8d;
+      }
+      .prompter-picker-empty {
+        font-size: 12px;
+        color: #9fb0d6;
+        padding: 6px 2px;
+      }
       .prompter-row {
         display: flex;
         gap: 8px;
@@ -179,6 +666,347 @@
     document.documentElement.appendChild(style);
   }
 
+  function renderPickerList() {
+    if (!pickerList) return;
+    pickerList.textContent = "";
+    if (pickerSearchInput) pickerSearchInput.style.display = "";
+
+    const query = (pickerSearchInput?.value || "").trim().toLowerCase();
+    const visibleChains = pickerChains.filter((chain) => !query || chain.title.toLowerCase().includes(query));
+    const visible = pickerPrompts.filter((prompt) => {
+      if (!query) return true;
+      return (
+        prompt.title.toLowerCase().includes(query) ||
+        prompt.content.toLowerCase().includes(query) ||
+        prompt.tags.some((tag) => tag.toLowerCase().includes(query))
+      );
+    });
+
+    for (const chain of visibleChains) {
+      const item = document.createElement("button");
+      item.type = "button";
+      item.className = "prompter-picker-item";
+
+      const title = document.createElement("strong");
+      title.textContent = `⛓ ${chain.title}`;
+
+      const info = document.createElement("small");
+      info.textContent = t(`Łańcuch · kroki: ${chain.steps.length}`, `Chain · ${chain.steps.length} steps`);
+
+      item.append(title, info);
+      item.addEventListener("click", (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        saveChainRun({ chainId: chain.id, title: chain.title, step: 0, total: chain.steps.length });
+        renderInsertPane();
+      });
+      pickerList.appendChild(item);
+    }
+
+    if (visible.length === 0 && visibleChains.length > 0) return;
+    if (visible.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "prompter-picker-empty";
+      empty.textContent = pickerPrompts.length === 0
+        ? t("Biblioteka jest pusta", "Library is empty")
+        : t("Brak wyników", "No results");
+      pickerList.appendChild(empty);
+      return;
+    }
+
+    for (const prompt of visible) {
+      const item = document.createElement("button");
+      item.type = "button";
+      item.className = "prompter-picker-item";
+
+      const title = document.createElement("strong");
+      title.textContent = `${prompt.favorite ? "★ " : ""}${prompt.title}`;
+
+      const snippet = document.createElement("small");
+      const firstLine = prompt.content.replace(/\s+/g, " ").trim();
+      snippet.textContent = firstLine.length > 90 ? `${firstLine.slice(0, 90)}...` : firstLine;
+
+      item.append(title, snippet);
+      item.addEventListener("click", (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        choosePrompt(prompt);
+      });
+      pickerList.appendChild(item);
+    }
+  }
+
+  // `afterInsert` runs once the text is in the composer, e.g. to advance a chain.
+  function choosePrompt(prompt, afterInsert) {
+    const variables = Array.isArray(prompt.variables) ? prompt.variables : [];
+    if (variables.length === 0) {
+      if (insertPrompt(prompt, prompt.content)) afterInsert?.();
+      return;
+    }
+
+    void loadRememberedValues().then((remembered) => showFillForm(prompt, variables, remembered, afterInsert));
+  }
+
+  function showFillForm(prompt, variables, remembered, afterInsert) {
+    if (!pickerList) return;
+    pickerList.textContent = "";
+    if (pickerSearchInput) pickerSearchInput.style.display = "none";
+
+    const form = document.createElement("form");
+    form.className = "prompter-pane";
+
+    const title = document.createElement("strong");
+    title.textContent = prompt.title;
+    form.appendChild(title);
+
+    const fields = new Map();
+    for (const variable of variables) {
+      const label = document.createElement("label");
+      label.className = "prompter-field";
+      label.textContent = variable.name;
+
+      const last = remembered[variable.name];
+      let field;
+      if (variable.options.length > 0) {
+        field = document.createElement("select");
+        for (const option of variable.options) {
+          const optionEl = document.createElement("option");
+          optionEl.value = option;
+          optionEl.textContent = option;
+          field.appendChild(optionEl);
+        }
+        field.value = typeof last === "string" && variable.options.includes(last) ? last : variable.defaultValue;
+      } else {
+        field = document.createElement("input");
+        field.value = typeof last === "string" ? last : variable.defaultValue;
+      }
+
+      fields.set(variable.name, field);
+      label.appendChild(field);
+      form.appendChild(label);
+    }
+
+    const actions = document.createElement("div");
+    actions.className = "prompter-row";
+
+    const submit = document.createElement("button");
+    submit.type = "submit";
+    submit.className = "primary";
+    submit.textContent = t("Wstaw", "Insert");
+
+    const back = document.createElement("button");
+    back.type = "button";
+    back.className = "ghost";
+    back.textContent = t("Wróć", "Back");
+
+    actions.append(submit, back);
+    form.appendChild(actions);
+
+    form.addEventListener("submit", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const values = {};
+      for (const [name, field] of fields) values[name] = field.value;
+      void rememberValues(values);
+      // Rendered by the service worker with src/shared/templates.ts, the same code as the app.
+      chrome.runtime.sendMessage({ type: "RENDER_PROMPT", version: MESSAGE_VERSION, id: prompt.id, values }, (response) => {
+        if (chrome.runtime.lastError || !response?.ok) {
+          showToast(t("Nie udało się wypełnić promptu", "Failed to fill in the prompt"), "error");
+          return;
+        }
+        if (insertPrompt(prompt, response.text, values)) afterInsert?.();
+      });
+    });
+
+    back.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      renderInsertPane();
+      pickerSearchInput?.focus();
+    });
+
+    pickerList.appendChild(form);
+    fields.values().next().value?.focus();
+  }
+
+  function loadPickerPrompts() {
+    pickerPrompts = [];
+    pickerChains = [];
+    pickerLoading = true;
+    renderPickerList();
+
+    chrome.runtime.sendMessage({ type: "LIST_PROMPTS", version: MESSAGE_VERSION }, (response) => {
+      pickerLoading = false;
+      if (chrome.runtime.lastError || !response?.ok) {
+        showToast(t("Nie udało się wczytać biblioteki", "Failed to load library"), "error");
+        return;
+      }
+      pickerPrompts = Array.isArray(response.prompts) ? response.prompts : [];
+      pickerChains = Array.isArray(response.chains) ? response.chains : [];
+      renderInsertPane();
+    });
+  }
+
+  function loadChainRun() {
+    return new Promise((resolve) => {
+      chrome.runtime.sendMessage({ type: "GET_CHAIN_RUN", version: MESSAGE_VERSION }, (response) => {
+        if (!chrome.runtime.lastError && response?.ok) chainRun = response.run;
+        resolve();
+      });
+    });
+  }
+
+  function saveChainRun(run) {
+    chainRun = run;
+    chrome.runtime.sendMessage({ type: "SET_CHAIN_RUN", version: MESSAGE_VERSION, run }, (response) => {
+      if (chrome.runtime.lastError || !response?.ok) {
+        console.warn("Prompter: could not save chain progress", chrome.runtime.lastError?.message || response?.error);
+      }
+    });
+    applyLanguageTexts();
+  }
+
+  function renderInsertPane() {
+    if (chainRun && !pickerLoading) renderChainRunner();
+    else renderPickerList();
+  }
+
+  function advanceChain() {
+    if (!chainRun) return;
+    const step = chainRun.step + 1;
+    if (step >= chainRun.total) {
+      const title = chainRun.title;
+      saveChainRun(null);
+      showToast(t(`Łańcuch „${title}” zakończony`, `Chain "${title}" finished`));
+      return;
+    }
+    saveChainRun({ ...chainRun, step });
+  }
+
+  function renderChainRunner() {
+    if (!pickerList || !chainRun) return;
+    const chain = pickerChains.find((item) => item.id === chainRun.chainId);
+    if (!chain || chainRun.step >= chain.steps.length) {
+      // Chain deleted or shortened in the library since the run started.
+      saveChainRun(null);
+      renderPickerList();
+      return;
+    }
+    if (chain.steps.length !== chainRun.total) saveChainRun({ ...chainRun, total: chain.steps.length });
+
+    pickerList.textContent = "";
+    if (pickerSearchInput) pickerSearchInput.style.display = "none";
+
+    const pane = document.createElement("div");
+    pane.className = "prompter-pane";
+
+    const heading = document.createElement("strong");
+    heading.textContent = `⛓ ${chain.title} · ${t("krok", "step")} ${chainRun.step + 1}/${chain.steps.length}`;
+    pane.appendChild(heading);
+
+    const steps = document.createElement("ol");
+    steps.className = "prompter-chain-steps";
+    chain.steps.forEach((step, index) => {
+      const item = document.createElement("li");
+      const prompt = pickerPrompts.find((candidate) => candidate.id === step.promptId);
+      item.textContent = prompt ? prompt.title : t("(brak promptu)", "(missing prompt)");
+      if (index < chainRun.step) item.className = "done";
+      if (index === chainRun.step) item.className = "current";
+      steps.appendChild(item);
+    });
+    pane.appendChild(steps);
+
+    const current = chain.steps[chainRun.step];
+    if (current.note) {
+      const note = document.createElement("div");
+      note.className = "prompter-chain-note";
+      note.textContent = current.note;
+      pane.appendChild(note);
+    }
+
+    const actions = document.createElement("div");
+    actions.className = "prompter-row";
+
+    const insert = document.createElement("button");
+    insert.type = "button";
+    insert.className = "primary";
+    insert.textContent = t("Wstaw krok", "Insert step");
+
+    const skip = document.createElement("button");
+    skip.type = "button";
+    skip.className = "ghost";
+    skip.textContent = t("Pomiń", "Skip");
+
+    const stop = document.createElement("button");
+    stop.type = "button";
+    stop.className = "ghost";
+    stop.textContent = t("Zakończ", "Stop");
+
+    insert.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const prompt = pickerPrompts.find((candidate) => candidate.id === current.promptId);
+      if (!prompt) {
+        showToast(t("Prompt tego kroku nie istnieje", "This step's prompt no longer exists"), "error");
+        return;
+      }
+      choosePrompt(prompt, advanceChain);
+    });
+
+    skip.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      advanceChain();
+      renderInsertPane();
+    });
+
+    stop.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      saveChainRun(null);
+      renderPickerList();
+      pickerSearchInput?.focus();
+    });
+
+    actions.append(insert, skip, stop);
+    pane.appendChild(actions);
+    pickerList.appendChild(pane);
+    insert.focus();
+  }
+
+  function insertPrompt(prompt, text, values) {
+    if (!insertIntoComposer(text)) {
+      showToast(t("Nie znaleziono pola wiadomości", "Message box not found"), "error");
+      return false;
+    }
+
+    closePanel();
+    showToast(t("Wstawiono prompt", "Prompt inserted"));
+
+    const message = { type: "MARK_PROMPT_USED", version: MESSAGE_VERSION, id: prompt.id, site: location.hostname, values: values || {} };
+    chrome.runtime.sendMessage(message, (response) => {
+      if (chrome.runtime.lastError || !response?.ok) {
+        console.warn("Prompter: could not update lastUsedAt", chrome.runtime.lastError?.message || response?.error);
+      }
+    });
+    return true;
+  }
+
+  function setMode(nextMode) {
+    mode = nextMode;
+    if (savePane) savePane.style.display = mode === "save" ? "flex" : "none";
+    if (insertPane) insertPane.style.display = mode === "insert" ? "flex" : "none";
+    applyLanguageTexts();
+
+    if (mode === "insert") {
+      if (pickerSearchInput) pickerSearchInput.value = "";
+      loadPickerPrompts();
+      pickerSearchInput?.focus();
+    } else {
+      titleInput?.focus();
+    }
+  }
+
   function setPanelOpen(nextOpen) {
     if (!panel) return;
     isOpen = nextOpen;
@@ -189,13 +1017,60 @@
     setPanelOpen(false);
   }
 
+  function updateExamplesInfo() {
+    if (!examplesInfo) return;
+    examplesInfo.textContent =
+      pendingExamples.length > 0
+        ? t(`Dołączone przykłady z rozmowy: ${pendingExamples.length}`, `Attached conversation examples: ${pendingExamples.length}`)
+        : "";
+    examplesInfo.style.display = pendingExamples.length > 0 ? "" : "none";
+  }
+
+  function updateDuplicateInfo() {
+    if (saveButton) {
+      saveButton.textContent = duplicateWarning
+        ? t("Zapisz mimo to", "Save anyway")
+        : t("Zapisz do biblioteki", "Save to library");
+    }
+    if (!duplicateInfo) return;
+    duplicateInfo.textContent = duplicateWarning
+      ? t(
+          `Bardzo podobny prompt już istnieje: „${duplicateWarning.title}” (${duplicateWarning.percent}%).`,
+          `A very similar prompt already exists: "${duplicateWarning.title}" (${duplicateWarning.percent}%).`
+        )
+      : "";
+    duplicateInfo.style.display = duplicateWarning ? "" : "none";
+  }
+
+  function setDuplicateWarning(value) {
+    duplicateWarning = value;
+    updateDuplicateInfo();
+  }
+
   function openPanel() {
     if (!panel || !titleInput || !contentInput) return;
+    composerTarget = findComposer();
     const draft = getDraftContent();
     contentInput.value = draft;
     titleInput.value = makeTitle(draft);
+    pendingExamples = [];
+    updateExamplesInfo();
+    setDuplicateWarning(null);
+    setPanelOpen(true);
+    // A running chain reopens on its next step.
+    setMode(chainRun ? "insert" : mode);
+  }
+
+  function openPanelWithCapture(content, examples) {
+    if (!panel || !titleInput || !contentInput) return;
+    composerTarget = findComposer();
+    contentInput.value = content;
+    titleInput.value = makeTitle(content);
+    pendingExamples = examples;
+    updateExamplesInfo();
+    setDuplicateWarning(null);
     setPanelOpen(true);
-    titleInput.focus();
+    setMode("save");
   }
 
   function togglePanel() {
@@ -207,6 +1082,7 @@
   }
 
   function unmountWidget() {
+    stopMessageButtons();
     if (root && root.parentElement) {
       root.parentElement.removeChild(root);
     }
@@ -220,21 +1096,49 @@
     minimizeButton = null;
     saveButton = null;
     cancelButton = null;
+    modeButton = null;
+    savePane = null;
+    insertPane = null;
+    pickerSearchInput = null;
+    pickerList = null;
+    pickerPrompts = [];
+    pickerChains = [];
+    composerTarget = null;
+    examplesInfo = null;
+    pendingExamples = [];
+    duplicateInfo = null;
+    duplicateWarning = null;
+    messageMenu = null;
     isOpen = false;
   }
 
   function applyLanguageTexts() {
     if (!launchButton || !headingEl || !minimizeButton || !saveButton || !cancelButton) return;
-    if (!titleInput || !contentInput || !tagsInput) return;
+    if (!titleInput || !contentInput || !tagsInput || !modeButton || !pickerSearchInput) return;
 
     launchButton.textContent = t("+ Zapisz do Prompter", "+ Save to Prompter");
-    headingEl.textContent = t("Dodaj prompt z tej rozmowy", "Add prompt from this conversation");
+    if (chainRun) launchButton.textContent += ` · ⛓ ${chainRun.step + 1}/${chainRun.total}`;
+    headingEl.textContent =
+      mode === "insert"
+        ? t("Wstaw prompt z biblioteki", "Insert prompt from library")
+        : t("Dodaj prompt z tej rozmowy", "Add prompt from this conversation");
+    modeButton.textContent = mode === "insert" ? t("Zapisz", "Save") : t("Wstaw", "Insert");
+    modeButton.title =
+      mode === "insert"
+        ? t("Przełącz na zapisywanie", "Switch to saving")
+        : t("Przełącz na wstawianie", "Switch to inserting");
     minimizeButton.title = t("Minimalizuj", "Minimize");
+    pickerSearchInput.placeholder = t("Szukaj promptów...", "Search prompts...");
     titleInput.placeholder = t("Tytuł", "Title");
     contentInput.placeholder = t("Treść promptu", "Prompt content");
     tagsInput.placeholder = t("Tagi (oddziel przecinkiem)", "Tags (comma-separated)");
-    saveButton.textContent = t("Zapisz do biblioteki", "Save to library");
     cancelButton.textContent = t("Zamknij", "Close");
+    updateExamplesInfo();
+    updateDuplicateInfo();
+    document.querySelectorAll(`.${MESSAGE_BUTTON_CLASS}`).forEach((button) => {
+      button.title = t("Zapisz do Prompter", "Save to Prompter");
+      button.setAttribute("aria-label", button.title);
+    });
   }
 
   function translateRuntimeError(message) {
@@ -245,6 +1149,12 @@
     if (normalized === "tytul jest wymagany") return "Title is required";
     if (normalized === "tresc promptu jest wymagana") return "Prompt content is required";
     if (normalized === "blad zapisu") return "Save error";
+    if (normalized === "prompt nie istnieje") return "Prompt does not exist";
+    if (normalized === "biblioteka jest uszkodzona") return "Library data is damaged; open Prompter to recover it";
+    if (normalized === "nieobslugiwana wersja wiadomosci") return "Unsupported message version; reload this page";
+    if (normalized === "biblioteka pochodzi z nowszej wersji rozszerzenia") {
+      return "Library was saved by a newer extension version";
+    }
     return message;
   }
 
@@ -267,11 +1177,18 @@
 
     headingEl = document.createElement("h4");
 
+    const headerActions = document.createElement("div");
+    headerActions.className = "prompter-row";
+
+    modeButton = document.createElement("button");
+    modeButton.type = "button";
+
     minimizeButton = document.createElement("button");
     minimizeButton.type = "button";
     minimizeButton.textContent = "_";
 
-    header.append(headingEl, minimizeButton);
+    headerActions.append(modeButton, minimizeButton);
+    header.append(headingEl, headerActions);
 
     titleInput = document.createElement("input");
 
@@ -279,6 +1196,15 @@
 
     tagsInput = document.createElement("input");
 
+    examplesInfo = document.createElement("div");
+    examplesInfo.className = "prompter-examples-info";
+
+    duplicateInfo = document.createElement("div");
+    duplicateInfo.className = "prompter-duplicate-info";
+
+    messageMenu = document.createElement("div");
+    messageMenu.className = "prompter-msg-menu";
+
     const actions = document.createElement("div");
     actions.className = "prompter-row";
 
@@ -290,10 +1216,41 @@
     cancelButton.type = "button";
     cancelButton.className = "ghost";
 
+    savePane = document.createElement("div");
+    savePane.className = "prompter-pane";
+
+    insertPane = document.createElement("div");
+    insertPane.className = "prompter-pane";
+
+    pickerSearchInput = document.createElement("input");
+    pickerSearchInput.type = "search";
+
+    pickerList = document.createElement("div");
+    pickerList.className = "prompter-picker-list";
+
     applyLanguageTexts();
 
     actions.append(saveButton, cancelButton);
-    panel.append(header, titleInput, contentInput, tagsInput, actions);
+    savePane.append(titleInput, contentInput, examplesInfo, duplicateInfo, tagsInput, actions);
+    insertPane.append(pickerSearchInput, pickerList);
+    panel.append(header, savePane, insertPane);
+
+    modeButton.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setMode(mode === "save" ? "insert" : "save");
+    });
+
+    pickerSearchInput.addEventListener("input", () => {
+      renderPickerList();
+    });
+
+    pickerSearchInput.addEventListener("keydown", (event) => {
+      if (event.key !== "Enter") return;
+      event.preventDefault();
+      const first = pickerList?.querySelector(".prompter-picker-item");
+      if (first instanceof HTMLButtonElement) first.click();
+    });
 
     launchButton.addEventListener("click", (event) => {
       event.preventDefault();
@@ -313,6 +1270,10 @@
       closePanel();
     });
 
+    contentInput.addEventListener("input", () => {
+      if (duplicateWarning) setDuplicateWarning(null);
+    });
+
     saveButton.addEventListener("click", (event) => {
       event.preventDefault();
       event.stopPropagation();
@@ -320,11 +1281,19 @@
       chrome.runtime.sendMessage(
         {
           type: "SAVE_PROMPT_FROM_PAGE",
+          version: MESSAGE_VERSION,
           payload: {
             title: titleInput?.value,
             content: contentInput?.value,
             tags: tagsInput?.value,
-            source: window.location.hostname
+            examples: pendingExamples,
+            allowDuplicate: !!duplicateWarning,
+            source: window.location.hostname,
+            page: {
+              url: window.location.href,
+              conversationTitle: readConversationTitle(),
+              model: readModelName()
+            }
           }
         },
         (response) => {
@@ -338,29 +1307,43 @@
             return;
           }
 
+          if (!response.saved) {
+            setDuplicateWarning({
+              title: response.similar?.title ?? "",
+              percent: Math.round((response.similar?.similarity ?? 1) * 100)
+            });
+            return;
+          }
+
           showToast(t("Prompt zapisany w Prompter", "Prompt saved in Prompter"));
           closePanel();
           if (tagsInput) tagsInput.value = "";
+          pendingExamples = [];
+          updateExamplesInfo();
+          setDuplicateWarning(null);
         }
       );
     });
 
     document.addEventListener("keydown", (event) => {
       if (event.key === "Escape") {
+        hideMessageMenu();
         closePanel();
       }
     });
 
     document.addEventListener("click", (event) => {
-      if (!isOpen || !root) return;
+      if (!root) return;
       const target = event.target;
       if (target instanceof Node && !root.contains(target)) {
-        closePanel();
+        hideMessageMenu();
+        if (isOpen) closePanel();
       }
     });
 
-    root.append(launchButton, panel);
+    root.append(launchButton, panel, messageMenu);
     document.body.appendChild(root);
+    startMessageButtons();
   }
 
   async function isFeatureEnabled() {
@@ -398,13 +1381,27 @@
     });
   }
 
+  // The toolbar palette inserts into the active tab through this listener, even with the widget hidden.
+  function listenForInsertRequests() {
+    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+      if (!message || message.type !== "INSERT_TEXT") return;
+      if (message.version !== MESSAGE_VERSION) {
+        sendResponse({ ok: false, error: "Nieobslugiwana wersja wiadomosci" });
+        return;
+      }
+      const inserted = typeof message.text === "string" && insertIntoComposer(message.text);
+      sendResponse(inserted ? { ok: true, site: location.hostname } : { ok: false, error: "Nie znaleziono pola wiadomosci" });
+    });
+  }
+
   async function init() {
-    const [enabled] = await Promise.all([isFeatureEnabled(), loadLanguage()]);
+    const [enabled] = await Promise.all([isFeatureEnabled(), loadLanguage(), loadChainRun()]);
     if (enabled) {
       mountWidget();
       applyLanguageTexts();
     }
     listenForSettingChanges();
+    listenForInsertRequests();
   }
 
   if (document.readyState === "loading") {
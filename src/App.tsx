@@ -1,30 +1,169 @@
-import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from "react";
-
-type Category = {
-  id: string;
-  name: string;
-  createdAt: string;
-};
-
-type Prompt = {
-  id: string;
-  title: string;
-  categoryId: string;
-  content: string;
-  tags: string[];
-  favorite: boolean;
-  createdAt: string;
-  updatedAt: string;
-  lastUsedAt: string | null;
-};
-
-type DbFile = {
-  version: number;
-  categories: Category[];
-  prompts: Prompt[];
-};
-
-type SortMode = "newest" | "lastUsed" | "az";
+import { ChangeEvent, DragEvent, FormEvent, ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { HighlightedText } from "./components/HighlightedText";
+import { MarkdownView } from "./components/MarkdownView";
+import { PromptEditor } from "./components/PromptEditor";
+import { VariableFillForm } from "./components/VariableFillForm";
+import { txt, useLanguage } from "./i18n";
+import type { Language } from "./i18n";
+import {
+  BACKUP_SCHEDULES,
+  MAX_BACKUP_RETENTION,
+  MIN_BACKUP_RETENTION,
+  addSnapshot,
+  diffSnapshot,
+  listSnapshots,
+  loadBackupPassphrase,
+  loadBackupSettings,
+  saveBackupPassphrase,
+  saveBackupSettings
+} from "./shared/backups";
+import type { BackupSchedule, BackupSettings, LibrarySnapshot, SnapshotReason } from "./shared/backups";
+import {
+  SNIPPET_NAME_PATTERN,
+  deleteSnippet,
+  expandIncludes,
+  expandPrompt,
+  findSnippetCycle,
+  includeToken,
+  includedNames,
+  saveSnippet,
+  snippetUsers,
+  snippetsUsedBy
+} from "./shared/snippets";
+import type { SnippetDraft } from "./shared/snippets";
+import { chainsUsingPrompt, deleteChain, newChainStep, resolveChainSteps, saveChain } from "./shared/chains";
+import type { ChainDraft } from "./shared/chains";
+import {
+  PATH_SEPARATOR,
+  canMoveCategory,
+  categoryPath,
+  categoryPathLabels,
+  deleteCategoryFromDb,
+  descendantIds,
+  findChildByName,
+  flattenCategoryTree
+} from "./shared/categories";
+import type { CategoryDeleteMode } from "./shared/categories";
+import { CryptoError, MIN_PASSPHRASE_LENGTH, decryptText, encryptText, isEncryptedEnvelope } from "./shared/crypto";
+import type { EncryptedEnvelope } from "./shared/crypto";
+import {
+  DEFAULT_IMPORT_RESOLUTION,
+  DbError,
+  analyzeImport,
+  defaultDb,
+  mergeImported,
+  normalizeDb,
+  parseDbJson
+} from "./shared/db";
+import type { ImportAnalysis, ImportResolution, ImportStatus } from "./shared/db";
+import {
+  CSV_FIELDS,
+  guessCsvMapping,
+  importChatGptExport,
+  importClaudeExport,
+  importCsv,
+  importMarkdownFiles,
+  isChatGptExport,
+  isClaudeExport,
+  parseCsv
+} from "./shared/importers";
+import type { CsvField, CsvMapping, CsvTable } from "./shared/importers";
+import { DEFAULT_DUPLICATE_THRESHOLD, findDuplicateClusters } from "./shared/duplicates";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  MAX_TRASH_RETENTION_DAYS,
+  MIN_TRASH_RETENTION_DAYS,
+  expireTrash,
+  loadTrashRetention,
+  moveToTrash,
+  normalizeTrashRetention,
+  purgeFromTrash,
+  restoreFromTrash,
+  saveTrashRetention,
+  trashExpiresAt
+} from "./shared/trash";
+import { exportCombinedMarkdown, exportCsv, exportMarkdownZip, scopeDb } from "./shared/exporters";
+import {
+  applyBatchAction,
+  createPromptRecord,
+  markPromptUsed,
+  mergePrompts,
+  togglePromptFavorite
+} from "./shared/library";
+import type { BatchAction } from "./shared/library";
+import { MESSAGE_VERSION } from "./shared/messages";
+import type { MessageResponse, RuntimeMessage } from "./shared/messages";
+import {
+  DB_VERSION,
+  UNCATEGORIZED_ID,
+  normalizeTags,
+  nowIso,
+  uuid
+} from "./shared/model";
+import type {
+  Category,
+  ChainStep,
+  DbErrorCode,
+  DbFile,
+  Prompt,
+  PromptChain,
+  PromptExample,
+  PromptRevision,
+  RevisionField,
+  Snippet,
+  VariableValues
+} from "./shared/model";
+import {
+  DEFAULT_FIND_OPTIONS,
+  compileFind,
+  expandReplacement,
+  findLibraryHits,
+  replaceInLibrary
+} from "./shared/replace";
+import type { FindOptions, LibraryHit } from "./shared/replace";
+import { appendRevision, changedRevisionFields, diffLines, makeRevision } from "./shared/revisions";
+import {
+  CORRUPT_SNAPSHOT_KEY,
+  QUICK_SAVE_ENABLED_KEY,
+  chromeApi,
+  hasExtensionStorage,
+  loadDb,
+  loadVariableValues,
+  readStoredDbRaw,
+  saveVariableValues,
+  subscribeToStoredDb,
+  writeSnapshot,
+  writeStoredDbRaw
+} from "./shared/storage";
+import { buildSearchIndex, hasTextQuery, highlightRanges, parseSearchQuery, searchPrompts, snippetWindow } from "./shared/search";
+import type { SearchMatches } from "./shared/search";
+import {
+  BUILT_IN_SITES,
+  OPTIONAL_SITES,
+  hasPermissionsApi,
+  listGrantedOrigins,
+  originLabel,
+  requestSiteAccess,
+  revokeSiteAccess,
+  toOriginPattern
+} from "./shared/sites";
+import { mergeExternalChange } from "./shared/sync";
+import { extractVariables, renderTemplate } from "./shared/templates";
+import {
+  DEFAULT_STALE_DAYS,
+  STALE_DAYS_OPTIONS,
+  clearUsageLog,
+  compareMostUsed,
+  loadUsageLog,
+  neverUsedPrompts,
+  recordUsage,
+  stalePrompts,
+  usageBySite,
+  usagePerDay
+} from "./shared/usage";
+import type { UsageEvent } from "./shared/usage";
+
+type SortMode = "relevance" | "newest" | "lastUsed" | "mostUsed" | "az";
 
 type PromptDraft = {
   id?: string;
@@ -33,10 +172,10 @@ type PromptDraft = {
   content: string;
   tags: string[];
   favorite: boolean;
+  examples: PromptExample[];
 };
 
-type AppPage = "dashboard" | "prompts" | "create" | "categories" | "data" | "settings";
-type Language = "pl" | "en";
+type AppPage = "dashboard" | "prompts" | "create" | "chains" | "snippets" | "categories" | "duplicates" | "trash" | "data" | "settings";
 
 type RouteState = {
   page: AppPage;
@@ -45,216 +184,163 @@ type RouteState = {
 
 type LibraryApi = {
   loading: boolean;
+  loadError: DbErrorCode | null;
   backupPending: boolean;
   db: DbFile;
   error: string | null;
   toast: string | null;
+  variableValues: VariableValues;
+  syncConflicts: string[];
+  toastUndoable: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  trashRetentionDays: number;
+  updateTrashRetention: (days: number) => Promise<void>;
+  restoreFromTrash: (ids: string[]) => void;
+  purgeFromTrash: (ids: string[]) => void;
   clearError: () => void;
+  dismissSyncConflicts: () => void;
+  retryLoad: () => void;
+  resetLibrary: () => Promise<void>;
+  readRawData: () => Promise<string | null>;
   dismissBackupNotice: () => void;
   backupNow: () => Promise<void>;
   createPrompt: () => PromptDraft;
   upsertPrompt: (draft: PromptDraft) => string;
   deletePrompt: (id: string) => void;
   duplicatePrompt: (id: string) => string;
-  copyPrompt: (id: string) => Promise<void>;
-  createCategory: (name: string) => void;
+  restoreRevision: (promptId: string, revisionId: string) => void;
+  copyPrompt: (id: string, values?: VariableValues) => Promise<void>;
+  toggleFavorite: (id: string) => void;
+  mergePrompts: (keepId: string, otherIds: string[]) => void;
+  applyBatch: (ids: string[], action: BatchAction) => void;
+  // Returns the chain id, or null when the draft is invalid (the error is shown).
+  saveChain: (draft: ChainDraft) => string | null;
+  deleteChain: (id: string) => void;
+  // Replaces the previewed hits named in `keys`; see replaceInLibrary.
+  replaceAcrossLibrary: (pattern: RegExp, replacement: string, regex: boolean, keys: string[]) => void;
+  // Returns the snippet id, or null when the draft is invalid (the error is shown).
+  saveSnippet: (draft: SnippetDraft) => string | null;
+  deleteSnippet: (id: string) => void;
+  createCategory: (name: string, parentId?: string | null) => void;
   renameCategory: (id: string, name: string) => void;
-  deleteCategory: (id: string) => void;
+  moveCategory: (id: string, parentId: string | null) => void;
+  deleteCategory: (id: string, mode: CategoryDeleteMode) => void;
   exportJson: () => string;
-  importJson: (raw: string) => void;
+  // `imported` is a preview that went through parseDbJson or an importer; it is merged as it is.
+  importDb: (imported: DbFile, resolutions?: Record<string, ImportResolution>) => void;
+  restoreSnapshot: (snapshot: DbFile) => Promise<void>;
 };
 
-const UNCATEGORIZED_ID = "uncategorized";
-const STORAGE_KEY = "prompter.prompts.v1";
-const QUICK_SAVE_ENABLED_KEY = "prompter.quickSaveEnabled";
-const LANGUAGE_KEY = "prompter.language";
-const SAVE_DEBOUNCE_MS = 400;
-const chromeApi = (globalThis as { chrome?: any }).chrome;
-const hasExtensionStorage = Boolean(chromeApi?.storage?.local);
-const DEFAULT_UNCATEGORIZED_LABEL = "Bez kategorii";
-
-function txt(language: Language, pl: string, en: string) {
-  return language === "pl" ? pl : en;
-}
+// Undo keeps whole-library states; they share unchanged prompt objects, so each step is cheap.
+type UndoEntry = {
+  db: DbFile;
+  label: string;
+};
 
-function nowIso() {
-  return new Date().toISOString();
-}
+type UndoHistory = {
+  past: UndoEntry[];
+  future: UndoEntry[];
+};
 
-function uuid() {
-  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-    return crypto.randomUUID();
-  }
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-}
+const SAVE_DEBOUNCE_MS = 400;
+const MAX_UNDO_STEPS = 50;
+const UNDO_TOAST_MS = 5000;
 
-function createDraft(): PromptDraft {
-  return {
-    title: "",
-    categoryId: UNCATEGORIZED_ID,
-    content: "",
-    tags: [],
-    favorite: false
-  };
+function siteLabel(site: string) {
+  if (site === "claude.ai") return "Claude";
+  if (site === "chatgpt.com" || site === "chat.openai.com") return "ChatGPT";
+  return site;
 }
 
-function defaultDb(): DbFile {
-  return {
-    version: 1,
-    categories: [{ id: UNCATEGORIZED_ID, name: DEFAULT_UNCATEGORIZED_LABEL, createdAt: nowIso() }],
-    prompts: []
-  };
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
-function normalizeDb(input: DbFile): DbFile {
-  const categories = [...(input.categories ?? [])];
-  if (!categories.some((c) => c.id === UNCATEGORIZED_ID)) {
-    categories.push({ id: UNCATEGORIZED_ID, name: DEFAULT_UNCATEGORIZED_LABEL, createdAt: nowIso() });
+function batchToast(action: BatchAction, count: number, language: Language) {
+  if (action.type === "move") return txt(language, `Przeniesiono: ${count}`, `Moved: ${count}`);
+  if (action.type === "addTags" || action.type === "removeTags") {
+    return txt(language, `Zmieniono tagi: ${count}`, `Tags updated: ${count}`);
   }
-
-  const categoryMap = new Map<string, Category>();
-  for (const c of categories) {
-    const id = (c.id ?? "").trim();
-    if (!id || categoryMap.has(id)) continue;
-    categoryMap.set(id, {
-      id,
-      name: c.name?.trim() || "Bez nazwy",
-      createdAt: c.createdAt || nowIso()
-    });
-  }
-
-  if (!categoryMap.has(UNCATEGORIZED_ID)) {
-    categoryMap.set(UNCATEGORIZED_ID, {
-      id: UNCATEGORIZED_ID,
-      name: DEFAULT_UNCATEGORIZED_LABEL,
-      createdAt: nowIso()
-    });
-  }
-
-  const promptMap = new Map<string, Prompt>();
-  for (const p of input.prompts ?? []) {
-    const id = (p.id ?? "").trim() || uuid();
-    if (promptMap.has(id)) continue;
-
-    const tags = Array.from(new Set((p.tags ?? []).map((tag) => tag.trim()).filter(Boolean))).sort(
-      (a, b) => a.localeCompare(b, "pl", { sensitivity: "base" })
-    );
-
-    promptMap.set(id, {
-      id,
-      title: p.title?.trim() || "Nowy prompt",
-      categoryId: categoryMap.has(p.categoryId) ? p.categoryId : UNCATEGORIZED_ID,
-      content: p.content?.trim() || "",
-      tags,
-      favorite: !!p.favorite,
-      createdAt: p.createdAt || nowIso(),
-      updatedAt: p.updatedAt || p.createdAt || nowIso(),
-      lastUsedAt: p.lastUsedAt || null
-    });
-  }
-
-  return {
-    version: 1,
-    categories: Array.from(categoryMap.values()),
-    prompts: Array.from(promptMap.values())
-  };
+  if (action.type === "favorite") return txt(language, `Zmieniono ulubione: ${count}`, `Favorites updated: ${count}`);
+  if (action.type === "duplicate") return txt(language, `Zduplikowano: ${count}`, `Duplicated: ${count}`);
+  return txt(language, `Usunięto: ${count}`, `Deleted: ${count}`);
 }
 
-function mergeImported(current: DbFile, imported: DbFile): DbFile {
-  const next: DbFile = {
-    version: 1,
-    categories: [...current.categories],
-    prompts: [...current.prompts]
-  };
-
-  const categoryIdMap = new Map(next.categories.map((c) => [c.id, c.id]));
-  const categoryNameMap = new Map(next.categories.map((c) => [c.name.toLowerCase(), c.id]));
-
-  for (const importedCategory of imported.categories) {
-    const importedId = importedCategory.id || uuid();
-
-    if (categoryIdMap.has(importedId)) {
-      categoryIdMap.set(importedId, importedId);
-      continue;
-    }
-
-    const existingByName = categoryNameMap.get(importedCategory.name.toLowerCase());
-    if (existingByName) {
-      categoryIdMap.set(importedId, existingByName);
-      continue;
-    }
-
-    next.categories.push(importedCategory);
-    categoryIdMap.set(importedId, importedId);
-    categoryNameMap.set(importedCategory.name.toLowerCase(), importedId);
-  }
-
-  categoryIdMap.set(UNCATEGORIZED_ID, UNCATEGORIZED_ID);
-
-  const promptById = new Map(next.prompts.map((p) => [p.id, p]));
-  for (const importedPrompt of imported.prompts) {
-    const normalized: Prompt = {
-      ...importedPrompt,
-      id: importedPrompt.id || uuid(),
-      categoryId: categoryIdMap.get(importedPrompt.categoryId) ?? UNCATEGORIZED_ID,
-      tags: Array.from(
-        new Set((importedPrompt.tags ?? []).map((tag) => tag.trim()).filter(Boolean))
-      ).sort((a, b) => a.localeCompare(b, "pl", { sensitivity: "base" }))
-    };
-
-    promptById.set(normalized.id, normalized);
+function validateCategoryName(name: string, language: Language) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error(txt(language, "Nazwa kategorii jest wymagana", "Category name is required"));
+  if (trimmed.includes(PATH_SEPARATOR)) {
+    throw new Error(txt(language, `Nazwa kategorii nie może zawierać „${PATH_SEPARATOR}”`, `Category name cannot contain "${PATH_SEPARATOR}"`));
   }
-
-  next.prompts = Array.from(promptById.values());
-  return normalizeDb(next);
+  return trimmed;
 }
 
-async function readStoredDbRaw(): Promise<string | null> {
-  if (hasExtensionStorage) {
-    const result = await chromeApi.storage.local.get([STORAGE_KEY]);
-    const value = result?.[STORAGE_KEY];
-    if (typeof value === "string") return value;
-    if (value && typeof value === "object") return JSON.stringify(value);
-    return null;
-  }
+// Drag payloads: prompt ids go to category drop targets, a category id to another category or the root.
+const PROMPT_DRAG_TYPE = "application/x-prompter-prompts";
+const CATEGORY_DRAG_TYPE = "application/x-prompter-category";
 
-  return localStorage.getItem(STORAGE_KEY);
+// Tree-ordered <option>s; the indent keeps the hierarchy readable inside a native select.
+function CategoryOptions({
+  categories,
+  uncategorizedLabel,
+  exclude
+}: {
+  categories: Category[];
+  uncategorizedLabel: string;
+  exclude?: Set<string>;
+}) {
+  return (
+    <>
+      {flattenCategoryTree(categories)
+        .filter(({ category }) => !exclude?.has(category.id))
+        .map(({ category, depth }) => (
+          <option key={category.id} value={category.id}>
+            {`${"\u00a0\u00a0".repeat(depth)}${category.id === UNCATEGORIZED_ID ? uncategorizedLabel : category.name}`}
+          </option>
+        ))}
+    </>
+  );
 }
 
-async function writeStoredDbRaw(json: string): Promise<void> {
-  if (hasExtensionStorage) {
-    await chromeApi.storage.local.set({ [STORAGE_KEY]: json });
-    return;
+function dbErrorMessage(code: DbErrorCode, language: Language) {
+  if (code === "corrupt") return txt(language, "Dane nie są poprawnym JSON-em.", "Data is not valid JSON.");
+  if (code === "invalid") {
+    return txt(language, "Dane nie mają struktury biblioteki promptów.", "Data does not look like a prompt library.");
   }
-
-  localStorage.setItem(STORAGE_KEY, json);
-}
-
-async function loadDb(): Promise<DbFile> {
-  const raw = await readStoredDbRaw();
-  if (!raw) {
-    const initial = defaultDb();
-    await writeStoredDbRaw(JSON.stringify(initial));
-    return initial;
+  if (code === "unsupportedVersion") {
+    return txt(
+      language,
+      "Dane zapisała nowsza wersja rozszerzenia. Zaktualizuj Prompter, aby je otworzyć.",
+      "Data was written by a newer extension version. Update Prompter to open it."
+    );
   }
+  return txt(language, "Migracja danych nie powiodła się.", "Data migration failed.");
+}
 
-  try {
-    const parsed = JSON.parse(raw) as DbFile;
-    const normalized = normalizeDb(parsed);
-    await writeStoredDbRaw(JSON.stringify(normalized));
-    return normalized;
-  } catch {
-    const fallback = defaultDb();
-    await writeStoredDbRaw(JSON.stringify(fallback));
-    return fallback;
-  }
+function createDraft(): PromptDraft {
+  return {
+    title: "",
+    categoryId: UNCATEGORIZED_ID,
+    content: "",
+    tags: [],
+    favorite: false,
+    examples: []
+  };
 }
 
 function parseHash(): RouteState {
   const hashRaw = window.location.hash.replace(/^#/, "");
   const [pathPart, queryPart] = hashRaw.split("?");
   const page = (pathPart || "dashboard") as AppPage;
-  const validPage: AppPage = ["dashboard", "prompts", "create", "categories", "data", "settings"].includes(page)
+  const validPage: AppPage = ["dashboard", "prompts", "create", "chains", "snippets", "categories", "duplicates", "trash", "data", "settings"].includes(page)
     ? page
     : "dashboard";
 
@@ -295,41 +381,6 @@ function useRouteState() {
   return { route, navigate };
 }
 
-function useLanguage() {
-  const [language, setLanguage] = useState<Language>(() => {
-    const saved = localStorage.getItem(LANGUAGE_KEY);
-    return saved === "en" ? "en" : "pl";
-  });
-
-  useEffect(() => {
-    let active = true;
-
-    void (async () => {
-      if (hasExtensionStorage) {
-        const result = await chromeApi.storage.local.get([LANGUAGE_KEY]);
-        if (!active) return;
-        const value = result?.[LANGUAGE_KEY];
-        const nextLanguage: Language = value === "en" ? "en" : "pl";
-        setLanguage(nextLanguage);
-      }
-    })();
-
-    return () => {
-      active = false;
-    };
-  }, []);
-
-  useEffect(() => {
-    localStorage.setItem(LANGUAGE_KEY, language);
-    if (hasExtensionStorage) {
-      void chromeApi.storage.local.set({ [LANGUAGE_KEY]: language });
-    }
-    document.documentElement.lang = language;
-  }, [language]);
-
-  return [language, setLanguage] as const;
-}
-
 function useQuickSaveSetting() {
   const [quickSaveEnabled, setQuickSaveEnabled] = useState(true);
 
@@ -369,46 +420,159 @@ function useQuickSaveSetting() {
 
 function useLibrary(language: Language): LibraryApi {
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<DbErrorCode | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
   const [backupPending, setBackupPending] = useState(false);
   const [db, setDb] = useState<DbFile>(() => defaultDb());
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
+  const [variableValues, setVariableValues] = useState<VariableValues>({});
+  const [syncConflicts, setSyncConflicts] = useState<string[]>([]);
+  const [toastUndoable, setToastUndoable] = useState(false);
+  const [history, setHistory] = useState<UndoHistory>({ past: [], future: [] });
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  // What this tab last saw in storage: the merge base for external writes and a guard against echoing our own.
+  const syncedRef = useRef<{ json: string; db: DbFile } | null>(null);
+  const dbRef = useRef(db);
+  dbRef.current = db;
 
   useEffect(() => {
     let active = true;
 
     void (async () => {
-      const loaded = await loadDb();
-      if (!active) return;
-      setDb(loaded);
+      setLoading(true);
+      try {
+        const [loaded, values, retention] = await Promise.all([loadDb(), loadVariableValues(), loadTrashRetention()]);
+        if (!active) return;
+        syncedRef.current = { json: JSON.stringify(loaded), db: loaded };
+        // Expired trash is dropped on load; the debounced writer stores the result.
+        setDb(expireTrash(loaded, retention, new Date()));
+        setVariableValues(values);
+        setTrashRetentionDays(retention);
+        setHistory({ past: [], future: [] });
+        setLoadError(null);
+      } catch (e) {
+        if (!active) return;
+        console.error("Prompter: could not load library", e);
+        setLoadError(e instanceof DbError ? e.code : "migrationFailed");
+      }
       setLoading(false);
     })();
 
     return () => {
       active = false;
     };
-  }, []);
+  }, [loadAttempt]);
 
   useEffect(() => {
-    if (loading) return;
+    if (loading || loadError) return;
     const timer = window.setTimeout(() => {
-      void writeStoredDbRaw(JSON.stringify(db));
+      const json = JSON.stringify(db);
+      if (syncedRef.current?.json === json) return;
+      syncedRef.current = { json, db };
+      void writeStoredDbRaw(json);
     }, SAVE_DEBOUNCE_MS);
 
     return () => window.clearTimeout(timer);
-  }, [db, loading]);
+  }, [db, loading, loadError]);
+
+  useEffect(() => {
+    if (loading || loadError) return;
+
+    return subscribeToStoredDb((raw) => {
+      const synced = syncedRef.current;
+      if (!raw || !synced || raw === synced.json) return;
+
+      let remote: DbFile;
+      try {
+        remote = parseDbJson(raw);
+      } catch (e) {
+        console.warn("Prompter: ignoring unreadable external library write", e);
+        return;
+      }
+
+      const result = mergeExternalChange(synced.db, dbRef.current, remote);
+      syncedRef.current = { json: raw, db: remote };
+      dbRef.current = result.db;
+      setDb(result.db);
+      // Undo restores whole-library states, which would silently revert the other writer's change.
+      if (result.mergedCount > 0 || result.conflicts.length > 0) setHistory({ past: [], future: [] });
+
+      if (result.conflicts.length > 0) {
+        setSyncConflicts((prev) => Array.from(new Set([...prev, ...result.conflicts.map((p) => p.title)])));
+      } else if (result.mergedCount > 0) {
+        showToast(
+          txt(
+            language,
+            `Zsynchronizowano zmiany z innego okna (${result.mergedCount})`,
+            `Synced changes from another window (${result.mergedCount})`
+          )
+        );
+      }
+    });
+  }, [language, loading, loadError]);
 
   useEffect(() => {
     if (!toast) return;
-    const timer = window.setTimeout(() => setToast(null), 1800);
+    // Toasts with an Undo button stay long enough to reach it.
+    const timer = window.setTimeout(() => {
+      setToast(null);
+      setToastUndoable(false);
+    }, toastUndoable ? UNDO_TOAST_MS : 1800);
     return () => window.clearTimeout(timer);
-  }, [toast]);
+  }, [toast, toastUndoable]);
+
+  function showToast(message: string, undoable = false) {
+    setToast(message);
+    setToastUndoable(undoable);
+  }
 
-  function commit(mutator: (prev: DbFile) => DbFile, toastMessage?: string) {
+  // Mutators run synchronously against the latest state, so a throw reaches withValidation and nothing is stored.
+  function commit(mutator: (prev: DbFile) => DbFile, toastMessage?: string, undoable = true) {
     setError(null);
-    setDb((prev) => normalizeDb(mutator(prev)));
+    const prev = dbRef.current;
+    const next = normalizeDb(mutator(prev));
+    dbRef.current = next;
+    setDb(next);
+    setBackupPending(true);
+    if (undoable) {
+      const label = toastMessage ?? txt(language, "Zmiana", "Change");
+      setHistory((h) => ({ past: [...h.past, { db: prev, label }].slice(-MAX_UNDO_STEPS), future: [] }));
+    } else {
+      // The change is applied to every stored state too, so undo and redo cannot bring back what it replaced.
+      const reapply = (entry: UndoEntry) => ({ ...entry, db: normalizeDb(mutator(entry.db)) });
+      const { past, future } = historyRef.current;
+      const nextHistory = { past: past.map(reapply), future: future.map(reapply) };
+      historyRef.current = nextHistory;
+      setHistory(nextHistory);
+    }
+    if (toastMessage) showToast(toastMessage, undoable);
+  }
+
+  function travel(direction: "undo" | "redo") {
+    const { past, future } = historyRef.current;
+    const source = direction === "undo" ? past : future;
+    const entry = source[source.length - 1];
+    if (!entry) return;
+
+    const current = { db: dbRef.current, label: entry.label };
+    const next: UndoHistory =
+      direction === "undo"
+        ? { past: past.slice(0, -1), future: [...future, current] }
+        : { past: [...past, current], future: future.slice(0, -1) };
+    historyRef.current = next;
+    setHistory(next);
+    dbRef.current = entry.db;
+    setDb(entry.db);
     setBackupPending(true);
-    if (toastMessage) setToast(toastMessage);
+    setError(null);
+    showToast(
+      direction === "undo"
+        ? txt(language, `Cofnięto: ${entry.label}`, `Undone: ${entry.label}`)
+        : txt(language, `Ponowiono: ${entry.label}`, `Redone: ${entry.label}`)
+    );
   }
 
   function withValidation(action: () => void) {
@@ -422,35 +586,80 @@ function useLibrary(language: Language): LibraryApi {
 
   return {
     loading,
+    loadError,
     backupPending,
     db,
     error,
     toast,
+    variableValues,
+    syncConflicts,
+    toastUndoable,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo: () => travel("undo"),
+    redo: () => travel("redo"),
+    trashRetentionDays,
+    updateTrashRetention: async (days) => {
+      const normalized = normalizeTrashRetention(days);
+      setTrashRetentionDays(normalized);
+      await saveTrashRetention(normalized);
+      commit((prev) => expireTrash(prev, normalized, new Date()), undefined, false);
+    },
+    restoreFromTrash: (ids) => {
+      commit(
+        (prev) => restoreFromTrash(prev, ids),
+        txt(language, `Przywrócono z kosza: ${ids.length}`, `Restored from trash: ${ids.length}`)
+      );
+    },
+    purgeFromTrash: (ids) => {
+      commit(
+        (prev) => purgeFromTrash(prev, ids),
+        txt(language, `Usunięto trwale: ${ids.length}`, `Permanently deleted: ${ids.length}`)
+      );
+    },
     clearError: () => setError(null),
+    dismissSyncConflicts: () => setSyncConflicts([]),
+    retryLoad: () => setLoadAttempt((n) => n + 1),
+    resetLibrary: async () => {
+      const raw = await readStoredDbRaw();
+      if (raw) await writeSnapshot(CORRUPT_SNAPSHOT_KEY, raw);
+      await writeStoredDbRaw(JSON.stringify(defaultDb()));
+      setLoadAttempt((n) => n + 1);
+    },
+    readRawData: readStoredDbRaw,
     dismissBackupNotice: () => setBackupPending(false),
     backupNow: async () => {
       const json = JSON.stringify(db, null, 2);
 
       if (hasExtensionStorage) {
+        const message: RuntimeMessage = { type: "BACKUP_NOW", version: MESSAGE_VERSION, json };
+        let response: MessageResponse<"BACKUP_NOW"> | undefined;
         try {
-          chromeApi.runtime?.sendMessage({ type: "BACKUP_NOW", json });
-          setBackupPending(false);
-          setToast(txt(language, "Backup zapisany do Downloads", "Backup saved to Downloads"));
+          response = await chromeApi.runtime.sendMessage(message);
         } catch {
+          response = undefined;
+        }
+        // The notice stays until a file was actually written.
+        if (response?.ok && response.saved) {
+          setBackupPending(false);
+          showToast(txt(language, "Backup zapisany do Downloads", "Backup saved to Downloads"));
+        } else if (response?.ok && response.reason === "noPassphrase") {
+          setError(
+            txt(
+              language,
+              "Backup nie został zapisany: podaj hasło backupu w Dane -> Automatyczny backup (po restarcie przeglądarki trzeba je podać ponownie).",
+              "Backup not saved: enter the backup passphrase in Data -> Automatic backup (it has to be entered again after a browser restart)."
+            )
+          );
+        } else {
           setError(txt(language, "Nie udało się utworzyć backupu pliku", "Could not create backup file"));
         }
         return;
       }
 
-      const blob = new Blob([json], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = "prompts-latest.json";
-      link.click();
-      URL.revokeObjectURL(url);
+      downloadBlob(new Blob([json], { type: "application/json" }), "prompts-latest.json");
       setBackupPending(false);
-      setToast(txt(language, "Backup pobrany", "Backup downloaded"));
+      showToast(txt(language, "Backup pobrany", "Backup downloaded"));
     },
     createPrompt: createDraft,
     upsertPrompt: (draft) => {
@@ -465,24 +674,28 @@ function useLibrary(language: Language): LibraryApi {
           const categoryId = prev.categories.some((c) => c.id === draft.categoryId)
             ? draft.categoryId
             : UNCATEGORIZED_ID;
-          const tags = Array.from(new Set(draft.tags.map((tag) => tag.trim()).filter(Boolean))).sort(
-            (a, b) => a.localeCompare(b, "pl", { sensitivity: "base" })
-          );
+          const tags = normalizeTags(draft.tags);
+          const snapshot = { title: draft.title.trim(), content: draft.content.trim(), tags };
 
           const existing = prev.prompts.find((p) => p.id === promptId);
           if (existing) {
+            const changedFields = changedRevisionFields(existing, snapshot);
             return {
               ...prev,
               prompts: prev.prompts.map((p) =>
                 p.id === promptId
                   ? {
                       ...p,
-                      title: draft.title.trim(),
+                      ...snapshot,
                       categoryId,
-                      content: draft.content.trim(),
-                      tags,
+                      variables: extractVariables(snapshot.content),
                       favorite: draft.favorite,
-                      updatedAt: now
+                      examples: draft.examples,
+                      updatedAt: now,
+                      revisions:
+                        changedFields.length > 0
+                          ? appendRevision(p.revisions, makeRevision(snapshot, changedFields, now))
+                          : p.revisions
                     }
                   : p
               )
@@ -493,17 +706,10 @@ function useLibrary(language: Language): LibraryApi {
             ...prev,
             prompts: [
               ...prev.prompts,
-              {
-                id: promptId,
-                title: draft.title.trim(),
-                categoryId,
-                content: draft.content.trim(),
-                tags,
-                favorite: draft.favorite,
-                createdAt: now,
-                updatedAt: now,
-                lastUsedAt: null
-              }
+              createPromptRecord(
+                { id: promptId, ...snapshot, categoryId, favorite: draft.favorite, examples: draft.examples },
+                now
+              )
             ]
           };
         }, txt(language, "Zapisano", "Saved"))
@@ -514,11 +720,8 @@ function useLibrary(language: Language): LibraryApi {
     deletePrompt: (id) => {
       withValidation(() => {
         commit(
-          (prev) => ({
-            ...prev,
-            prompts: prev.prompts.filter((p) => p.id !== id)
-          }),
-          txt(language, "Usunięto prompt", "Prompt deleted")
+          (prev) => moveToTrash(prev, [id], nowIso()),
+          txt(language, "Przeniesiono prompt do kosza", "Prompt moved to trash")
         );
       });
     },
@@ -534,14 +737,14 @@ function useLibrary(language: Language): LibraryApi {
             ...prev,
             prompts: [
               ...prev.prompts,
-              {
-                ...original,
-                id: copyId,
-                title: `${original.title} ${txt(language, "(kopia)", "(copy)")}`,
-                createdAt: now,
-                updatedAt: now,
-                lastUsedAt: null
-              }
+              createPromptRecord(
+                {
+                  ...original,
+                  id: copyId,
+                  title: `${original.title} ${txt(language, "(kopia)", "(copy)")}`
+                },
+                now
+              )
             ]
           };
         }, txt(language, "Zduplikowano", "Duplicated"));
@@ -549,65 +752,190 @@ function useLibrary(language: Language): LibraryApi {
 
       return copyId;
     },
-    copyPrompt: async (id) => {
-      const prompt = db.prompts.find((p) => p.id === id);
-      if (!prompt) {
+    restoreRevision: (promptId, revisionId) => {
+      withValidation(() => {
+        commit((prev) => {
+          const prompt = prev.prompts.find((p) => p.id === promptId);
+          if (!prompt) throw new Error(txt(language, "Prompt nie istnieje", "Prompt does not exist"));
+          const revision = prompt.revisions.find((r) => r.id === revisionId);
+          if (!revision) throw new Error(txt(language, "Wersja nie istnieje", "Revision does not exist"));
+
+          const now = nowIso();
+          const snapshot = { title: revision.title, content: revision.content, tags: revision.tags };
+          const changedFields = changedRevisionFields(prompt, snapshot);
+
+          return {
+            ...prev,
+            prompts: prev.prompts.map((p) =>
+              p.id === promptId
+                ? {
+                    ...p,
+                    ...snapshot,
+                    tags: [...snapshot.tags],
+                    variables: extractVariables(snapshot.content),
+                    updatedAt: now,
+                    revisions: appendRevision(
+                      p.revisions,
+                      makeRevision(snapshot, changedFields, now, revision.id)
+                    )
+                  }
+                : p
+            )
+          };
+        }, txt(language, "Przywrócono wersję", "Revision restored"));
+      });
+    },
+    copyPrompt: async (id, values) => {
+      const current = dbRef.current;
+      const stored = current.prompts.find((p) => p.id === id);
+      if (!stored) {
         setError(txt(language, "Prompt nie istnieje", "Prompt does not exist"));
         return;
       }
+      const prompt = expandPrompt(stored, current.snippets);
 
+      const text = values ? renderTemplate(prompt.content, values) : prompt.content;
       try {
-        await navigator.clipboard.writeText(prompt.content);
+        await navigator.clipboard.writeText(text);
       } catch {
         setError(txt(language, "Nie udało się skopiować do schowka", "Could not copy to clipboard"));
         return;
       }
 
+      if (values && Object.keys(values).length > 0) {
+        const nextValues = { ...variableValues, ...values };
+        setVariableValues(nextValues);
+        void saveVariableValues(nextValues);
+      }
+
+      const now = nowIso();
+      commit((prev) => markPromptUsed(prev, id, now), txt(language, "Skopiowano", "Copied"), false);
+      void recordUsage({ promptId: id, action: "copy", at: now, site: null, values: values ?? {} });
+    },
+    toggleFavorite: (id) => {
+      commit((prev) => togglePromptFavorite(prev, id, nowIso()));
+    },
+    applyBatch: (ids, action) => {
+      if (ids.length === 0) return;
+      commit((prev) => applyBatchAction(prev, ids, action, nowIso()), batchToast(action, ids.length, language));
+    },
+    saveChain: (draft) => {
+      let savedId: string | null = null;
+      withValidation(() => {
+        if (!draft.title.trim()) throw new Error(txt(language, "Nazwa łańcucha jest wymagana", "Chain title is required"));
+        if (draft.steps.length === 0) {
+          throw new Error(txt(language, "Łańcuch musi mieć co najmniej jeden krok", "A chain needs at least one step"));
+        }
+        commit((prev) => {
+          const next = saveChain(prev, draft, nowIso());
+          savedId = draft.id ?? next.chains[next.chains.length - 1].id;
+          return next;
+        }, draft.id ? txt(language, "Zapisano łańcuch", "Chain saved") : txt(language, "Dodano łańcuch", "Chain added"));
+      });
+      return savedId;
+    },
+    deleteChain: (id) => {
+      commit((prev) => deleteChain(prev, id), txt(language, "Usunięto łańcuch", "Chain deleted"));
+    },
+    replaceAcrossLibrary: (pattern, replacement, regex, keys) => {
+      if (keys.length === 0) return;
+      // dbRef is what commit applies to, so the toast counts match the change that is made.
+      const result = replaceInLibrary(dbRef.current, pattern, replacement, regex, new Set(keys), nowIso());
+      if (result.replacements === 0) {
+        setError(txt(language, "Nic nie zostało zamienione", "Nothing was replaced"));
+        return;
+      }
       commit(
-        (prev) => {
-          const now = nowIso();
-          return {
-            ...prev,
-            prompts: prev.prompts.map((p) =>
-              p.id === id ? { ...p, lastUsedAt: now, updatedAt: now } : p
-            )
-          };
-        },
-        txt(language, "Skopiowano", "Copied")
+        () => result.db,
+        txt(
+          language,
+          `Zamieniono ${result.replacements} wystąpień w ${result.promptCount} promptach`,
+          `Replaced ${result.replacements} occurrences in ${result.promptCount} prompts`
+        )
       );
     },
-    createCategory: (name) => {
+    saveSnippet: (draft) => {
+      let savedId: string | null = null;
+      withValidation(() => {
+        const name = draft.name.trim();
+        if (!name) throw new Error(txt(language, "Nazwa fragmentu jest wymagana", "Snippet name is required"));
+        if (!SNIPPET_NAME_PATTERN.test(name)) {
+          throw new Error(
+            txt(
+              language,
+              "Nazwa fragmentu może zawierać tylko litery, cyfry, _, . i -",
+              "Snippet names may only contain letters, digits, _, . and -"
+            )
+          );
+        }
+        if (!draft.content.trim()) throw new Error(txt(language, "Treść fragmentu jest wymagana", "Snippet content is required"));
+        commit((prev) => {
+          // Checked against the state the snippet is saved into, not the last render's.
+          if (prev.snippets.some((s) => s.id !== draft.id && s.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(txt(language, "Fragment o tej nazwie już istnieje", "A snippet with this name already exists"));
+          }
+          const cycle = findSnippetCycle(prev.snippets, draft);
+          if (cycle) {
+            throw new Error(txt(language, `Cykl dołączeń: ${cycle.join(" → ")}`, `Include cycle: ${cycle.join(" → ")}`));
+          }
+          const next = saveSnippet(prev, draft, nowIso());
+          savedId = draft.id ?? next.snippets[next.snippets.length - 1].id;
+          return next;
+        }, draft.id ? txt(language, "Zapisano fragment", "Snippet saved") : txt(language, "Dodano fragment", "Snippet added"));
+      });
+      return savedId;
+    },
+    deleteSnippet: (id) => {
+      commit((prev) => deleteSnippet(prev, id), txt(language, "Usunięto fragment", "Snippet deleted"));
+    },
+    mergePrompts: (keepId, otherIds) => {
+      withValidation(() => {
+        commit((prev) => {
+          const next = normalizeDb(mergePrompts(prev, keepId, otherIds, nowIso()));
+          // Steps are moved to the kept prompt; a chain that got shorter would have lost them silently.
+          const stepCounts = new Map(prev.chains.map((chain) => [chain.id, chain.steps.length]));
+          if (next.chains.some((chain) => chain.steps.length !== stepCounts.get(chain.id))) {
+            throw new Error(txt(language, "Scalenie usunęłoby kroki łańcuchów", "Merging would remove chain steps"));
+          }
+          return next;
+        }, txt(language, "Scalono duplikaty", "Duplicates merged"));
+      });
+    },
+    createCategory: (name, parentId = null) => {
       withValidation(() => {
-        const trimmed = name.trim();
-        if (!trimmed) throw new Error(txt(language, "Nazwa kategorii jest wymagana", "Category name is required"));
+        const trimmed = validateCategoryName(name, language);
 
         commit((prev) => {
-          if (prev.categories.some((c) => c.name.toLowerCase() === trimmed.toLowerCase())) {
+          if (findChildByName(prev.categories, parentId, trimmed)) {
             throw new Error(txt(language, "Kategoria o tej nazwie już istnieje", "Category with this name already exists"));
           }
+          if (parentId && (parentId === UNCATEGORIZED_ID || !prev.categories.some((c) => c.id === parentId))) {
+            throw new Error(txt(language, "Nie można tu dodać podkategorii", "Cannot add a subcategory here"));
+          }
 
           return {
             ...prev,
-            categories: [...prev.categories, { id: uuid(), name: trimmed, createdAt: nowIso() }]
+            categories: [...prev.categories, { id: uuid(), name: trimmed, parentId, createdAt: nowIso() }]
           };
         }, txt(language, "Dodano kategorię", "Category added"));
       });
     },
     renameCategory: (id, name) => {
       withValidation(() => {
-        const trimmed = name.trim();
-        if (!trimmed) throw new Error(txt(language, "Nazwa kategorii jest wymagana", "Category name is required"));
+        const trimmed = validateCategoryName(name, language);
         if (id === UNCATEGORIZED_ID) {
           throw new Error(txt(language, "Nie można zmienić nazwy kategorii Bez kategorii", "Cannot rename the default uncategorized category"));
         }
 
         commit((prev) => {
-          if (prev.categories.some((c) => c.id !== id && c.name.toLowerCase() === trimmed.toLowerCase())) {
-            throw new Error(txt(language, "Kategoria o tej nazwie już istnieje", "Category with this name already exists"));
+          const category = prev.categories.find((c) => c.id === id);
+          if (!category) {
+            throw new Error(txt(language, "Kategoria nie istnieje", "Category does not exist"));
           }
 
-          if (!prev.categories.some((c) => c.id === id)) {
-            throw new Error(txt(language, "Kategoria nie istnieje", "Category does not exist"));
+          const sibling = findChildByName(prev.categories, category.parentId, trimmed);
+          if (sibling && sibling.id !== id) {
+            throw new Error(txt(language, "Kategoria o tej nazwie już istnieje", "Category with this name already exists"));
           }
 
           return {
@@ -617,7 +945,32 @@ function useLibrary(language: Language): LibraryApi {
         }, txt(language, "Zmieniono nazwę kategorii", "Category renamed"));
       });
     },
-    deleteCategory: (id) => {
+    moveCategory: (id, parentId) => {
+      withValidation(() => {
+        commit((prev) => {
+          const category = prev.categories.find((c) => c.id === id);
+          if (!category) {
+            throw new Error(txt(language, "Kategoria nie istnieje", "Category does not exist"));
+          }
+          if (parentId === UNCATEGORIZED_ID) {
+            throw new Error(txt(language, "Bez kategorii nie może mieć podkategorii", "Uncategorized cannot have subcategories"));
+          }
+          if (!canMoveCategory(prev.categories, id, parentId)) {
+            throw new Error(txt(language, "Nie można przenieść kategorii do jej podkategorii", "Cannot move a category into its own subcategory"));
+          }
+          const sibling = findChildByName(prev.categories, parentId, category.name);
+          if (sibling && sibling.id !== id) {
+            throw new Error(txt(language, "Kategoria o tej nazwie już istnieje", "Category with this name already exists"));
+          }
+
+          return {
+            ...prev,
+            categories: prev.categories.map((c) => (c.id === id ? { ...c, parentId } : c))
+          };
+        }, txt(language, "Przeniesiono kategorię", "Category moved"));
+      });
+    },
+    deleteCategory: (id, mode) => {
       withValidation(() => {
         if (id === UNCATEGORIZED_ID) {
           throw new Error(txt(language, "Nie można usunąć kategorii Bez kategorii", "Cannot delete the default uncategorized category"));
@@ -627,23 +980,22 @@ function useLibrary(language: Language): LibraryApi {
           if (!prev.categories.some((c) => c.id === id)) {
             throw new Error(txt(language, "Kategoria nie istnieje", "Category does not exist"));
           }
-          return {
-            ...prev,
-            categories: prev.categories.filter((c) => c.id !== id),
-            prompts: prev.prompts.map((p) =>
-              p.categoryId === id ? { ...p, categoryId: UNCATEGORIZED_ID, updatedAt: nowIso() } : p
-            )
-          };
+          return deleteCategoryFromDb(prev, id, mode, nowIso());
         }, txt(language, "Usunięto kategorię", "Category deleted"));
       });
     },
     exportJson: () => JSON.stringify(db, null, 2),
-    importJson: (raw) => {
+    importDb: (imported, resolutions) => {
+      // Not normalized on its own: that would drop chain steps pointing at prompts already in the library.
       withValidation(() => {
-        const parsed = JSON.parse(raw) as DbFile;
-        const normalizedImported = normalizeDb(parsed);
-        commit((prev) => mergeImported(prev, normalizedImported), txt(language, "Zaimportowano dane", "Imported data"));
+        commit((prev) => mergeImported(prev, imported, resolutions), txt(language, "Zaimportowano dane", "Imported data"));
       });
+    },
+    restoreSnapshot: async (snapshot) => {
+      // The library being replaced becomes a snapshot itself, so a restore can be undone.
+      const settings = await loadBackupSettings();
+      await addSnapshot(JSON.stringify(dbRef.current), "beforeRestore", settings.retention);
+      commit(() => snapshot, txt(language, "Przywrócono bibliotekę z kopii", "Library restored from snapshot"));
     }
   };
 }
@@ -652,7 +1004,11 @@ function pageTitle(page: AppPage, language: Language) {
   if (page === "dashboard") return language === "pl" ? "Dashboard" : "Dashboard";
   if (page === "prompts") return language === "pl" ? "Biblioteka promptów" : "Prompt library";
   if (page === "create") return language === "pl" ? "Nowy prompt" : "New prompt";
+  if (page === "chains") return language === "pl" ? "Łańcuchy promptów" : "Prompt chains";
+  if (page === "snippets") return language === "pl" ? "Fragmenty" : "Snippets";
   if (page === "categories") return language === "pl" ? "Kategorie" : "Categories";
+  if (page === "duplicates") return language === "pl" ? "Duplikaty" : "Duplicates";
+  if (page === "trash") return language === "pl" ? "Kosz" : "Trash";
   if (page === "data") return language === "pl" ? "Dane i kopie" : "Data and backups";
   if (page === "settings") return language === "pl" ? "Ustawienia" : "Settings";
   return "Prompter";
@@ -676,16 +1032,30 @@ function NavButton({
   );
 }
 
+const USAGE_CHART_DAYS = [14, 30, 90];
+const CLEANUP_LIST_LIMIT = 8;
+
 function DashboardPage({
-  db,
+  lib,
   navigate,
   language
 }: {
-  db: DbFile;
+  lib: LibraryApi;
   navigate: (page: AppPage, params?: Record<string, string>) => void;
   language: Language;
 }) {
   const isPl = language === "pl";
+  const db = lib.db;
+  const [usageLog, setUsageLog] = useState<UsageEvent[]>([]);
+  const [chartDays, setChartDays] = useState(USAGE_CHART_DAYS[1]);
+  const [staleDays, setStaleDays] = useState(DEFAULT_STALE_DAYS);
+  const [confirmClearLog, setConfirmClearLog] = useState(false);
+  const [confirmTrash, setConfirmTrash] = useState<"never" | "stale" | null>(null);
+
+  useEffect(() => {
+    void loadUsageLog().then(setUsageLog);
+  }, [db]);
+
   const recent = [...db.prompts]
     .sort((a, b) => {
       if (a.lastUsedAt && b.lastUsedAt) {
@@ -709,6 +1079,68 @@ function DashboardPage({
     .sort((a, b) => b[1] - a[1])
     .slice(0, 8);
 
+  const promptIds = useMemo(() => new Set(db.prompts.map((p) => p.id)), [db.prompts]);
+  // Events of deleted prompts drop out of the charts as well.
+  const liveEvents = useMemo(() => usageLog.filter((event) => promptIds.has(event.promptId)), [promptIds, usageLog]);
+  const perDay = useMemo(() => usagePerDay(liveEvents, chartDays, new Date()), [chartDays, liveEvents]);
+  const peak = Math.max(1, ...perDay.map((day) => day.copies + day.inserts));
+  const periodTotal = perDay.reduce((sum, day) => sum + day.copies + day.inserts, 0);
+  const topSites = useMemo(() => usageBySite(liveEvents).slice(0, 5), [liveEvents]);
+  const mostUsed = useMemo(
+    () => db.prompts.filter((p) => p.useCount > 0).sort(compareMostUsed).slice(0, CLEANUP_LIST_LIMIT),
+    [db.prompts]
+  );
+  const neverUsed = useMemo(() => neverUsedPrompts(db.prompts), [db.prompts]);
+  const stale = useMemo(() => stalePrompts(db.prompts, staleDays, new Date()), [db.prompts, staleDays]);
+
+  async function clearLog() {
+    await clearUsageLog();
+    setUsageLog([]);
+    setConfirmClearLog(false);
+  }
+
+  function trashAll(kind: "never" | "stale") {
+    lib.applyBatch((kind === "never" ? neverUsed : stale).map((p) => p.id), { type: "delete" });
+    setConfirmTrash(null);
+  }
+
+  function renderCleanupList(kind: "never" | "stale", list: Prompt[]) {
+    if (list.length === 0) {
+      return <p className="site-hint">{isPl ? "Nic do posprzątania." : "Nothing to clean up."}</p>;
+    }
+    return (
+      <>
+        {list.slice(0, CLEANUP_LIST_LIMIT).map((prompt) => (
+          <button key={prompt.id} className="list-item" onClick={() => navigate("prompts", { prompt: prompt.id })}>
+            <span>{prompt.title}</span>
+            <small>
+              {kind === "never"
+                ? `${isPl ? "Dodano" : "Added"} ${new Date(prompt.createdAt).toLocaleDateString()}`
+                : `${isPl ? "Użyto" : "Used"} ${new Date(prompt.lastUsedAt ?? prompt.createdAt).toLocaleDateString()}`}
+            </small>
+          </button>
+        ))}
+        {list.length > CLEANUP_LIST_LIMIT ? (
+          <p className="site-hint">{isPl ? `i ${list.length - CLEANUP_LIST_LIMIT} więcej` : `and ${list.length - CLEANUP_LIST_LIMIT} more`}</p>
+        ) : null}
+        <div className="row-gap usage-cleanup-actions">
+          {confirmTrash === kind ? (
+            <>
+              <button className="danger" onClick={() => trashAll(kind)}>
+                {isPl ? `Potwierdź: ${list.length} do kosza` : `Confirm: ${list.length} to trash`}
+              </button>
+              <button className="ghost" onClick={() => setConfirmTrash(null)}>{isPl ? "Anuluj" : "Cancel"}</button>
+            </>
+          ) : (
+            <button className="ghost" onClick={() => setConfirmTrash(kind)}>
+              {isPl ? "Przenieś wszystkie do kosza" : "Move all to trash"}
+            </button>
+          )}
+        </div>
+      </>
+    );
+  }
+
   return (
     <div className="dashboard-grid">
       <article className="metric-card"><h3>{isPl ? "Łącznie promptów" : "Total prompts"}</h3><strong>{db.prompts.length}</strong></article>
@@ -729,16 +1161,493 @@ function DashboardPage({
         ))}
       </section>
 
-      <section className="surface tags-panel">
-        <h2>{isPl ? "Najczęstsze tagi" : "Top tags"}</h2>
-        <div className="tag-cloud">
-          {topTags.map(([tag, count]) => (
-            <button key={tag} className="tag-pill" onClick={() => navigate("prompts", { tag })}>
-              {tag} <small>({count})</small>
-            </button>
-          ))}
-        </div>
-      </section>
+      <section className="surface usage-panel">
+        <div className="section-title-row">
+          <h2>{isPl ? "Użycie w czasie" : "Usage over time"}</h2>
+          <div className="row-gap">
+            <select value={chartDays} onChange={(e) => setChartDays(Number(e.target.value))}>
+              {USAGE_CHART_DAYS.map((days) => (
+                <option key={days} value={days}>{isPl ? `Ostatnie ${days} dni` : `Last ${days} days`}</option>
+              ))}
+            </select>
+            {confirmClearLog ? (
+              <>
+                <button className="danger" onClick={() => void clearLog()}>{isPl ? "Potwierdź" : "Confirm"}</button>
+                <button className="ghost" onClick={() => setConfirmClearLog(false)}>{isPl ? "Anuluj" : "Cancel"}</button>
+              </>
+            ) : (
+              <button className="ghost" onClick={() => setConfirmClearLog(true)}>{isPl ? "Wyczyść historię użycia" : "Clear usage history"}</button>
+            )}
+          </div>
+        </div>
+        <div className="usage-chart" role="img" aria-label={isPl ? `Użycia: ${periodTotal}` : `Uses: ${periodTotal}`}>
+          {perDay.map((day) => (
+            <div
+              key={day.day}
+              className="usage-bar"
+              title={`${day.day}: ${isPl ? "wstawienia" : "inserts"} ${day.inserts}, ${isPl ? "kopie" : "copies"} ${day.copies}`}
+            >
+              <span className="usage-bar-copies" style={{ height: `${(day.copies / peak) * 100}%` }} />
+              <span className="usage-bar-inserts" style={{ height: `${(day.inserts / peak) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <p className="site-hint">
+          <span className="usage-legend usage-legend-inserts" /> {isPl ? "wstawienia" : "inserts"}{" "}
+          <span className="usage-legend usage-legend-copies" /> {isPl ? "kopie" : "copies"}
+          {" · "}
+          {isPl ? `Razem: ${periodTotal}` : `Total: ${periodTotal}`}
+          {topSites.length > 0 ? ` · ${topSites.map(([site, count]) => `${siteLabel(site)} (${count})`).join(", ")}` : ""}
+        </p>
+      </section>
+
+      <section className="surface usage-panel">
+        <h2>{isPl ? "Najczęściej używane" : "Most used"}</h2>
+        {mostUsed.length === 0 ? <p>{isPl ? "Brak używanych promptów." : "No prompts used yet."}</p> : mostUsed.map((prompt) => (
+          <button key={prompt.id} className="list-item usage-rank" onClick={() => navigate("prompts", { prompt: prompt.id })}>
+            <span>{prompt.title}</span>
+            <span className="usage-rank-bar" style={{ width: `${(prompt.useCount / mostUsed[0].useCount) * 100}%` }} />
+            <small>{prompt.useCount}×</small>
+          </button>
+        ))}
+      </section>
+
+      <section className="surface usage-panel">
+        <h2>{isPl ? `Nigdy nieużyte (${neverUsed.length})` : `Never used (${neverUsed.length})`}</h2>
+        {renderCleanupList("never", neverUsed)}
+      </section>
+
+      <section className="surface usage-panel">
+        <div className="section-title-row">
+          <h2>{isPl ? `Nieużywane (${stale.length})` : `Stale (${stale.length})`}</h2>
+          <select value={staleDays} onChange={(e) => { setStaleDays(Number(e.target.value)); setConfirmTrash(null); }}>
+            {STALE_DAYS_OPTIONS.map((days) => (
+              <option key={days} value={days}>{isPl ? `Ponad ${days} dni` : `Over ${days} days`}</option>
+            ))}
+          </select>
+        </div>
+        {renderCleanupList("stale", stale)}
+      </section>
+
+      <section className="surface tags-panel">
+        <h2>{isPl ? "Najczęstsze tagi" : "Top tags"}</h2>
+        <div className="tag-cloud">
+          {topTags.map(([tag, count]) => (
+            <button key={tag} className="tag-pill" onClick={() => navigate("prompts", { tag })}>
+              {tag} <small>({count})</small>
+            </button>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function revisionFieldLabel(field: RevisionField, language: Language) {
+  if (field === "title") return txt(language, "tytuł", "title");
+  if (field === "content") return txt(language, "treść", "content");
+  return txt(language, "tagi", "tags");
+}
+
+function PromptHistoryPanel({
+  prompt,
+  onRestore,
+  language
+}: {
+  prompt: Prompt;
+  onRestore: (revisionId: string) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const revisions = prompt.revisions;
+  const latestId = revisions[revisions.length - 1]?.id ?? "";
+  const [leftId, setLeftId] = useState(() => revisions[revisions.length - 2]?.id ?? latestId);
+  const [rightId, setRightId] = useState(latestId);
+
+  useEffect(() => {
+    setRightId(latestId);
+  }, [latestId]);
+
+  const left = revisions.find((r) => r.id === leftId) ?? revisions[0];
+  const right = revisions.find((r) => r.id === rightId) ?? revisions[revisions.length - 1];
+  const rows = useMemo(
+    () => (left && right ? diffLines(left.content, right.content) : []),
+    [left, right]
+  );
+
+  function revisionLabel(revision: PromptRevision, index: number) {
+    return `#${index + 1} · ${new Date(revision.createdAt).toLocaleString()}`;
+  }
+
+  return (
+    <div className="history-panel">
+      <h3>{isPl ? "Historia wersji" : "Version history"}</h3>
+      <ol className="history-list">
+        {[...revisions].reverse().map((revision) => {
+          const index = revisions.indexOf(revision);
+          const restoredFrom = revision.restoredFrom
+            ? revisions.findIndex((r) => r.id === revision.restoredFrom)
+            : -1;
+          return (
+            <li key={revision.id} className="history-item">
+              <div>
+                <strong>{revisionLabel(revision, index)}</strong>
+                <small>
+                  {index === 0
+                    ? (isPl ? "utworzono" : "created")
+                    : revision.changedFields.map((field) => revisionFieldLabel(field, language)).join(", ") ||
+                      (isPl ? "bez zmian" : "no changes")}
+                  {revision.restoredFrom
+                    ? ` · ${isPl ? "przywrócono" : "restored"} ${restoredFrom >= 0 ? `#${restoredFrom + 1}` : ""}`
+                    : ""}
+                </small>
+              </div>
+              <div className="row-gap">
+                <button className="ghost" onClick={() => setLeftId(revision.id)}>{isPl ? "Lewa" : "Left"}</button>
+                <button className="ghost" onClick={() => setRightId(revision.id)}>{isPl ? "Prawa" : "Right"}</button>
+                {revision.id !== latestId ? (
+                  <button className="ghost" onClick={() => onRestore(revision.id)}>{isPl ? "Przywróć" : "Restore"}</button>
+                ) : null}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {left && right ? (
+        <>
+          <div className="diff-header">
+            <span>{revisionLabel(left, revisions.indexOf(left))}{left.title !== right.title ? ` · ${left.title}` : ""}</span>
+            <span>{revisionLabel(right, revisions.indexOf(right))}{left.title !== right.title ? ` · ${right.title}` : ""}</span>
+          </div>
+          <div className="diff-table">
+            {rows.map((row, index) => (
+              <div key={index} className={`diff-row diff-${row.kind}`}>
+                <pre className="diff-cell diff-left">{row.left ?? ""}</pre>
+                <pre className="diff-cell diff-right">{row.right ?? ""}</pre>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function ExamplesList({
+  examples,
+  onRemove,
+  language
+}: {
+  examples: PromptExample[];
+  onRemove?: (index: number) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+
+  return (
+    <div className="examples-list">
+      <h3>{isPl ? "Przykłady" : "Examples"} ({examples.length})</h3>
+      {examples.map((example, index) => (
+        <div key={index} className="example-item">
+          <div className="row-between">
+            <strong>#{index + 1}</strong>
+            {onRemove ? (
+              <button type="button" className="ghost" onClick={() => onRemove(index)}>{isPl ? "Usuń" : "Remove"}</button>
+            ) : null}
+          </div>
+          {example.input ? (
+            <>
+              <small>{isPl ? "Wiadomość użytkownika" : "User message"}</small>
+              <pre>{example.input}</pre>
+            </>
+          ) : null}
+          {example.output ? (
+            <>
+              <small>{isPl ? "Odpowiedź asystenta" : "Assistant response"}</small>
+              <pre>{example.output}</pre>
+            </>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ContentSnippet({ text, matches, length }: { text: string; matches: SearchMatches | undefined; length: number }) {
+  const ranges = highlightRanges(text, matches);
+  const span = snippetWindow(text, ranges, length);
+  const visible = ranges
+    .filter((range) => range.end > span.start && range.start < span.end)
+    .map((range) => ({
+      start: Math.max(range.start, span.start) - span.start,
+      end: Math.min(range.end, span.end) - span.start
+    }));
+
+  return (
+    <>
+      {span.start > 0 ? "..." : ""}
+      <HighlightedText text={text.slice(span.start, span.end)} ranges={visible} />
+      {span.end < text.length ? "..." : ""}
+    </>
+  );
+}
+
+type ReplaceScope = "view" | "all" | "category" | "tag";
+
+const REPLACE_CONTEXT_CHARS = 40;
+const MAX_REPLACE_PREVIEW_PROMPTS = 200;
+
+function oneLine(text: string) {
+  return text.replace(/\n/g, " ⏎ ");
+}
+
+/**
+ * Library-wide find and replace. Every hit in scope starts ticked; applying replaces the ticked
+ * ones in a single undoable commit.
+ */
+function LibraryReplacePanel({
+  lib,
+  viewPrompts,
+  onOpenPrompt,
+  onClose,
+  language
+}: {
+  lib: LibraryApi;
+  // What the library view currently shows, for the "current view" scope.
+  viewPrompts: Prompt[];
+  onOpenPrompt: (id: string) => void;
+  onClose: () => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const locale = isPl ? "pl" : "en";
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [includeTitles, setIncludeTitles] = useState(false);
+  const [scope, setScope] = useState<ReplaceScope>("view");
+  const [scopeCategory, setScopeCategory] = useState<string>(UNCATEGORIZED_ID);
+  const [scopeTag, setScopeTag] = useState("");
+  const [unticked, setUnticked] = useState<Set<string>>(() => new Set());
+
+  const allTags = useMemo(
+    () =>
+      Array.from(new Set(lib.db.prompts.flatMap((prompt) => prompt.tags))).sort((a, b) =>
+        a.localeCompare(b, locale, { sensitivity: "base" })
+      ),
+    [lib.db.prompts, locale]
+  );
+
+  const scopedPrompts = useMemo(() => {
+    if (scope === "view") {
+      // The view may be a render behind; always work on the stored prompts.
+      const ids = new Set(viewPrompts.map((prompt) => prompt.id));
+      return lib.db.prompts.filter((prompt) => ids.has(prompt.id));
+    }
+    if (scope === "category") {
+      const ids = descendantIds(lib.db.categories, scopeCategory);
+      return lib.db.prompts.filter((prompt) => ids.has(prompt.categoryId));
+    }
+    if (scope === "tag") return lib.db.prompts.filter((prompt) => prompt.tags.includes(scopeTag));
+    return lib.db.prompts;
+  }, [lib.db.categories, lib.db.prompts, scope, scopeCategory, scopeTag, viewPrompts]);
+
+  const { pattern, patternError } = useMemo(() => {
+    try {
+      return { pattern: compileFind(query, options), patternError: null };
+    } catch (e) {
+      return { pattern: null, patternError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [options, query]);
+
+  const hits = useMemo(
+    () => (pattern ? findLibraryHits(scopedPrompts, pattern, includeTitles ? ["title", "content"] : ["content"]) : []),
+    [includeTitles, pattern, scopedPrompts]
+  );
+  const groups = useMemo(() => {
+    const byPrompt = new Map<string, LibraryHit[]>();
+    for (const hit of hits) byPrompt.set(hit.promptId, [...(byPrompt.get(hit.promptId) ?? []), hit]);
+    const prompts = new Map(scopedPrompts.map((prompt) => [prompt.id, prompt]));
+    return Array.from(byPrompt.entries()).map(([id, promptHits]) => ({ prompt: prompts.get(id) as Prompt, hits: promptHits }));
+  }, [hits, scopedPrompts]);
+
+  useEffect(() => {
+    setUnticked(new Set());
+  }, [pattern, includeTitles, scopedPrompts]);
+
+  const selectedKeys = hits.filter((hit) => !unticked.has(hit.key)).map((hit) => hit.key);
+  const selectedPromptCount = groups.filter((group) => group.hits.some((hit) => !unticked.has(hit.key))).length;
+
+  function setTicked(keys: string[], ticked: boolean) {
+    setUnticked((prev) => {
+      const next = new Set(prev);
+      for (const key of keys) {
+        if (ticked) next.delete(key);
+        else next.add(key);
+      }
+      return next;
+    });
+  }
+
+  const toggleOption = (key: keyof FindOptions) => setOptions((prev) => ({ ...prev, [key]: !prev[key] }));
+
+  return (
+    <div className="prompt-preview-backdrop" onClick={onClose}>
+      <article className="prompt-preview replace-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="section-title-row">
+          <h2>{isPl ? "Znajdź i zamień w bibliotece" : "Find and replace in library"}</h2>
+          <button className="ghost" onClick={onClose}>{isPl ? "Zamknij" : "Close"}</button>
+        </div>
+
+        <div className="replace-form">
+          <input
+            autoFocus
+            value={query}
+            placeholder={isPl ? "Znajdź" : "Find"}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <input
+            value={replacement}
+            placeholder={isPl ? "Zamień na" : "Replace with"}
+            onChange={(e) => setReplacement(e.target.value)}
+          />
+          <div className="row-gap">
+            <label className="checkbox-row">
+              <input type="checkbox" checked={options.caseSensitive} onChange={() => toggleOption("caseSensitive")} />
+              {isPl ? "Wielkość liter" : "Match case"}
+            </label>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={options.wholeWord} onChange={() => toggleOption("wholeWord")} />
+              {isPl ? "Całe słowa" : "Whole words"}
+            </label>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={options.regex} onChange={() => toggleOption("regex")} />
+              {isPl ? "Wyrażenie regularne" : "Regular expression"}
+            </label>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={includeTitles} onChange={(e) => setIncludeTitles(e.target.checked)} />
+              {isPl ? "Także tytuły" : "Titles too"}
+            </label>
+          </div>
+          <div className="row-gap">
+            <select value={scope} onChange={(e) => setScope(e.target.value as ReplaceScope)}>
+              <option value="view">
+                {isPl ? `Bieżący widok (${viewPrompts.length})` : `Current view (${viewPrompts.length})`}
+              </option>
+              <option value="all">
+                {isPl ? `Cała biblioteka (${lib.db.prompts.length})` : `Whole library (${lib.db.prompts.length})`}
+              </option>
+              <option value="category">{isPl ? "Kategoria" : "Category"}</option>
+              <option value="tag" disabled={allTags.length === 0}>Tag</option>
+            </select>
+            {scope === "category" ? (
+              <select value={scopeCategory} onChange={(e) => setScopeCategory(e.target.value)}>
+                <CategoryOptions
+                  categories={lib.db.categories}
+                  uncategorizedLabel={isPl ? "Bez kategorii" : "Uncategorized"}
+                />
+              </select>
+            ) : null}
+            {scope === "tag" ? (
+              <select value={scopeTag} onChange={(e) => setScopeTag(e.target.value)}>
+                <option value="">{isPl ? "Wybierz tag..." : "Choose a tag..."}</option>
+                {allTags.map((tag) => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            ) : null}
+          </div>
+        </div>
+
+        {patternError ? <p className="import-error">{isPl ? "Błędny wzorzec" : "Invalid pattern"}: {patternError}</p> : null}
+
+        {pattern ? (
+          <div className="section-title-row">
+            <span className="site-hint">
+              {isPl
+                ? `Zaznaczone: ${selectedKeys.length} z ${hits.length} wystąpień w ${selectedPromptCount} promptach`
+                : `Selected: ${selectedKeys.length} of ${hits.length} hits in ${selectedPromptCount} prompts`}
+            </span>
+            <div className="row-gap">
+              <button className="ghost" disabled={hits.length === 0} onClick={() => setUnticked(new Set())}>
+                {isPl ? "Zaznacz wszystkie" : "Tick all"}
+              </button>
+              <button
+                className="ghost"
+                disabled={hits.length === 0}
+                onClick={() => setUnticked(new Set(hits.map((hit) => hit.key)))}
+              >
+                {isPl ? "Odznacz wszystkie" : "Untick all"}
+              </button>
+              <button
+                disabled={!pattern || selectedKeys.length === 0}
+                onClick={() => {
+                  lib.replaceAcrossLibrary(pattern, replacement, options.regex, selectedKeys);
+                  setUnticked(new Set());
+                }}
+              >
+                {isPl ? `Zamień zaznaczone (${selectedKeys.length})` : `Replace selected (${selectedKeys.length})`}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {pattern && hits.length === 0 ? <p>{isPl ? "Brak wystąpień." : "No matches."}</p> : null}
+
+        <div className="replace-results">
+          {groups.slice(0, MAX_REPLACE_PREVIEW_PROMPTS).map(({ prompt, hits: promptHits }) => {
+            const keys = promptHits.map((hit) => hit.key);
+            const allTicked = keys.every((key) => !unticked.has(key));
+            return (
+              <section key={prompt.id} className="replace-group">
+                <div className="replace-group-title">
+                  <input
+                    type="checkbox"
+                    checked={allTicked}
+                    onChange={(e) => setTicked(keys, e.target.checked)}
+                    aria-label={isPl ? "Wszystkie wystąpienia w prompcie" : "All hits in this prompt"}
+                  />
+                  <button type="button" className="link-button" onClick={() => onOpenPrompt(prompt.id)}>
+                    {prompt.title}
+                  </button>
+                  <small className="site-hint">{promptHits.length}</small>
+                </div>
+                {promptHits.map((hit) => {
+                  const text = prompt[hit.field];
+                  const from = Math.max(0, hit.start - REPLACE_CONTEXT_CHARS);
+                  const to = Math.min(text.length, hit.end + REPLACE_CONTEXT_CHARS);
+                  return (
+                    <label key={hit.key} className="replace-hit">
+                      <input
+                        type="checkbox"
+                        checked={!unticked.has(hit.key)}
+                        onChange={(e) => setTicked([hit.key], e.target.checked)}
+                      />
+                      <span>
+                        {hit.field === "title" ? <small className="chip">{isPl ? "tytuł" : "title"}</small> : null}
+                        {from > 0 ? "…" : ""}
+                        {oneLine(text.slice(from, hit.start))}
+                        <del>{oneLine(text.slice(hit.start, hit.end))}</del>
+                        <ins>{oneLine(expandReplacement(replacement, text, hit, options.regex))}</ins>
+                        {oneLine(text.slice(hit.end, to))}
+                        {to < text.length ? "…" : ""}
+                      </span>
+                    </label>
+                  );
+                })}
+              </section>
+            );
+          })}
+          {groups.length > MAX_REPLACE_PREVIEW_PROMPTS ? (
+            <p className="site-hint">
+              {isPl
+                ? `Pokazano ${MAX_REPLACE_PREVIEW_PROMPTS} z ${groups.length} promptów; pozostałe też zostaną zmienione.`
+                : `Showing ${MAX_REPLACE_PREVIEW_PROMPTS} of ${groups.length} prompts; the rest are replaced too.`}
+            </p>
+          ) : null}
+        </div>
+      </article>
     </div>
   );
 }
@@ -748,12 +1657,14 @@ function PromptsPage({
   params,
   clearParams,
   navigate,
+  onExportFiltered,
   language
 }: {
   lib: LibraryApi;
   params: URLSearchParams;
   clearParams: () => void;
   navigate: (page: AppPage, params?: Record<string, string>) => void;
+  onExportFiltered: (promptIds: string[]) => void;
   language: Language;
 }) {
   const isPl = language === "pl";
@@ -764,17 +1675,30 @@ function PromptsPage({
   const [tagSearch, setTagSearch] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [favoriteOnly, setFavoriteOnly] = useState(false);
+  const [sourceFilter, setSourceFilter] = useState<string>("all");
+  const [capturedWithinDays, setCapturedWithinDays] = useState<number>(0);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [sortMode, setSortMode] = useState<SortMode>("newest");
+  const [sortMode, setSortMode] = useState<SortMode>("relevance");
   const [selectedPromptId, setSelectedPromptId] = useState<string | null>(null);
+  const [fillingVariables, setFillingVariables] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Kept while moving between prompts, like a reading mode.
+  const [markdownPreview, setMarkdownPreview] = useState(false);
+  const [bulkIds, setBulkIds] = useState<string[]>([]);
+  const [replaceOpen, setReplaceOpen] = useState(false);
+  const [bulkAnchorId, setBulkAnchorId] = useState<string | null>(null);
+  const [bulkCategory, setBulkCategory] = useState<string>(UNCATEGORIZED_ID);
+  const [bulkTags, setBulkTags] = useState("");
+  const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
 
   const prompts = lib.db.prompts;
   const categories = lib.db.categories;
-  const categoryMap = useMemo(() => new Map(categories.map((c) => [c.id, c.name])), [categories]);
+  const categoryMap = useMemo(() => categoryPathLabels(categories), [categories]);
 
   useEffect(() => {
     const promptId = params.get("prompt");
     const tagParam = params.get("tag");
+    const categoryParam = params.get("category");
     const focusSearch = params.get("focus") === "search";
 
     if (promptId && prompts.some((p) => p.id === promptId)) {
@@ -783,14 +1707,17 @@ function PromptsPage({
     if (tagParam) {
       setSelectedTags((prev) => (prev.includes(tagParam) ? prev : [...prev, tagParam]));
     }
+    if (categoryParam && categories.some((c) => c.id === categoryParam)) {
+      setSelectedCategory(categoryParam);
+    }
     if (focusSearch) {
       searchRef.current?.focus();
     }
 
-    if (promptId || tagParam || focusSearch) {
+    if (promptId || tagParam || categoryParam || focusSearch) {
       clearParams();
     }
-  }, [clearParams, params, prompts]);
+  }, [categories, clearParams, params, prompts]);
 
   useEffect(() => {
     if (selectedPromptId && !prompts.some((p) => p.id === selectedPromptId)) {
@@ -798,6 +1725,21 @@ function PromptsPage({
     }
   }, [prompts, selectedPromptId]);
 
+  useEffect(() => {
+    setFillingVariables(false);
+    setHistoryOpen(false);
+  }, [selectedPromptId]);
+
+  function startCopy(id: string) {
+    const prompt = prompts.find((p) => p.id === id);
+    if (prompt && expandPrompt(prompt, lib.db.snippets).variables.length > 0) {
+      setSelectedPromptId(id);
+      setFillingVariables(true);
+      return;
+    }
+    void lib.copyPrompt(id);
+  }
+
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
       const cmd = event.metaKey || event.ctrlKey;
@@ -811,15 +1753,15 @@ function PromptsPage({
         event.preventDefault();
         navigate("create");
       }
-      if (event.key === "Enter" && selectedPromptId) {
+      if (event.key === "Enter" && selectedPromptId && !fillingVariables) {
         event.preventDefault();
-        void lib.copyPrompt(selectedPromptId);
+        startCopy(selectedPromptId);
       }
     };
 
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [lib, navigate, selectedPromptId]);
+  }, [fillingVariables, lib, navigate, prompts, selectedPromptId]);
 
   const tagsUniverse = useMemo(() => {
     const unique = new Set<string>();
@@ -829,25 +1771,51 @@ function PromptsPage({
     return Array.from(unique).sort((a, b) => a.localeCompare(b, locale, { sensitivity: "base" }));
   }, [locale, prompts]);
 
+  const sourceSites = useMemo(
+    () => Array.from(new Set(prompts.flatMap((p) => (p.source ? [p.source.site] : [])))).sort(),
+    [prompts]
+  );
+
   const visibleTags = useMemo(() => {
     const query = tagSearch.trim().toLowerCase();
     if (!query) return tagsUniverse;
     return tagsUniverse.filter((tag) => tag.toLowerCase().includes(query));
   }, [tagSearch, tagsUniverse]);
 
+  const searchIndex = useMemo(() => buildSearchIndex(prompts, categories), [categories, prompts]);
+  const searchQuery = useMemo(() => parseSearchQuery(search), [search]);
+  const searchHits = useMemo(() => searchPrompts(searchIndex, searchQuery), [searchIndex, searchQuery]);
+  const searchMatches = useMemo(
+    () => new Map(searchHits.map((hit) => [hit.prompt.id, hit.matches])),
+    [searchHits]
+  );
+
+  // A category filter includes everything filed under its subcategories.
+  const categoryScope = useMemo(
+    () => (selectedCategory === "all" ? null : descendantIds(categories, selectedCategory)),
+    [categories, selectedCategory]
+  );
+
   const filteredPrompts = useMemo(() => {
-    const q = search.trim().toLowerCase();
-    const list = prompts.filter((prompt) => {
-      const inSearch = !q || prompt.title.toLowerCase().includes(q) || prompt.content.toLowerCase().includes(q);
-      const inCategory = selectedCategory === "all" || prompt.categoryId === selectedCategory;
+    const capturedSince = capturedWithinDays > 0 ? Date.now() - capturedWithinDays * 24 * 60 * 60 * 1000 : null;
+    const list = searchHits.map((hit) => hit.prompt).filter((prompt) => {
+      const inCategory = !categoryScope || categoryScope.has(prompt.categoryId);
       const inFavorite = !favoriteOnly || prompt.favorite;
       const inTags = selectedTags.every((tag) => prompt.tags.includes(tag));
-      return inSearch && inCategory && inFavorite && inTags;
+      const inSource =
+        sourceFilter === "all" ||
+        (sourceFilter === "manual" ? !prompt.source : prompt.source?.site === sourceFilter);
+      const capturedAt = prompt.source?.capturedAt || prompt.createdAt;
+      const inCapturedRange = capturedSince === null || new Date(capturedAt).getTime() >= capturedSince;
+      return inCategory && inFavorite && inTags && inSource && inCapturedRange;
     });
 
+    // Search hits arrive ranked; "relevance" without a text query falls back to newest first.
     const sorted = [...list];
-    if (sortMode === "newest") sorted.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const byNewest = sortMode === "newest" || (sortMode === "relevance" && !hasTextQuery(searchQuery));
+    if (byNewest) sorted.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     if (sortMode === "az") sorted.sort((a, b) => a.title.localeCompare(b.title, locale, { sensitivity: "base" }));
+    if (sortMode === "mostUsed") sorted.sort(compareMostUsed);
     if (sortMode === "lastUsed") {
       sorted.sort((a, b) => {
         if (a.lastUsedAt && b.lastUsedAt) return new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime();
@@ -858,12 +1826,57 @@ function PromptsPage({
     }
 
     return sorted;
-  }, [favoriteOnly, locale, prompts, search, selectedCategory, selectedTags, sortMode]);
+  }, [capturedWithinDays, categoryScope, favoriteOnly, locale, searchHits, searchQuery, selectedTags, sortMode, sourceFilter]);
+
+  // Batch actions only ever touch prompts that are on screen, so hidden ones drop out of the selection.
+  useEffect(() => {
+    const visibleIds = new Set(filteredPrompts.map((prompt) => prompt.id));
+    setBulkIds((prev) => (prev.every((id) => visibleIds.has(id)) ? prev : prev.filter((id) => visibleIds.has(id))));
+  }, [filteredPrompts]);
+
+  useEffect(() => {
+    setConfirmBulkDelete(false);
+  }, [bulkIds]);
+
+  function toggleBulk(id: string, range: boolean) {
+    const order = filteredPrompts.map((prompt) => prompt.id);
+    const anchorIndex = bulkAnchorId ? order.indexOf(bulkAnchorId) : -1;
+    const index = order.indexOf(id);
+    if (range && anchorIndex >= 0 && index >= 0) {
+      const rangeIds = order.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      setBulkIds((prev) => Array.from(new Set([...prev, ...rangeIds])));
+    } else {
+      setBulkIds((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]));
+    }
+    setBulkAnchorId(id);
+  }
+
+  function runBulk(action: BatchAction) {
+    lib.applyBatch(bulkIds, action);
+    if (action.type === "delete") setBulkIds([]);
+  }
+
+  function bulkTagList() {
+    return bulkTags.split(",").map((tag) => tag.trim()).filter(Boolean);
+  }
 
   const selectedPrompt = useMemo(
     () => prompts.find((prompt) => prompt.id === selectedPromptId) ?? null,
     [prompts, selectedPromptId]
   );
+  // What copying delivers: includes expanded, so variables from snippets are filled in too.
+  const selectedDelivered = useMemo(
+    () => (selectedPrompt ? expandPrompt(selectedPrompt, lib.db.snippets) : null),
+    [lib.db.snippets, selectedPrompt]
+  );
+  const selectedIncludes = useMemo(
+    () => (selectedPrompt ? includedNames(selectedPrompt.content) : []),
+    [selectedPrompt]
+  );
+  const selectedChains = useMemo(
+    () => (selectedPromptId ? chainsUsingPrompt(lib.db, selectedPromptId) : []),
+    [lib.db, selectedPromptId]
+  );
 
   return (
     <div className="library-page">
@@ -877,24 +1890,58 @@ function PromptsPage({
             {isPl ? "Kolekcja" : "Collection"}
             <select value={selectedCategory} onChange={(e) => setSelectedCategory(e.target.value)}>
               <option value="all">{isPl ? "Wszystkie kolekcje" : "All collections"}</option>
-              {categories.map((category) => (
-                <option key={category.id} value={category.id}>
-                  {category.id === UNCATEGORIZED_ID ? (isPl ? "Bez kategorii" : "Uncategorized") : category.name}
-                </option>
-              ))}
+              <CategoryOptions categories={categories} uncategorizedLabel={isPl ? "Bez kategorii" : "Uncategorized"} />
             </select>
           </label>
           <label>
             {isPl ? "Sortowanie" : "Sort"}
             <select value={sortMode} onChange={(e) => setSortMode(e.target.value as SortMode)}>
+              <option value="relevance">{isPl ? "Trafność" : "Relevance"}</option>
               <option value="newest">{isPl ? "Najnowsze" : "Newest"}</option>
               <option value="lastUsed">{isPl ? "Ostatnio używane" : "Last used"}</option>
+              <option value="mostUsed">{isPl ? "Najczęściej używane" : "Most used"}</option>
               <option value="az">A-Z</option>
             </select>
           </label>
+          <label>
+            {isPl ? "Źródło" : "Source"}
+            <select value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value)}>
+              <option value="all">{isPl ? "Wszystkie źródła" : "All sources"}</option>
+              <option value="manual">{isPl ? "Dodane w aplikacji" : "Added in app"}</option>
+              {sourceSites.map((site) => (
+                <option key={site} value={site}>{siteLabel(site)}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {isPl ? "Dodane" : "Added"}
+            <select value={capturedWithinDays} onChange={(e) => setCapturedWithinDays(Number(e.target.value))}>
+              <option value={0}>{isPl ? "Kiedykolwiek" : "Any time"}</option>
+              <option value={1}>{isPl ? "Ostatnie 24 h" : "Last 24 hours"}</option>
+              <option value={7}>{isPl ? "Ostatni tydzień" : "Last week"}</option>
+              <option value={30}>{isPl ? "Ostatni miesiąc" : "Last month"}</option>
+            </select>
+          </label>
           <button className={favoriteOnly ? "ghost active-filter" : "ghost"} onClick={() => setFavoriteOnly((v) => !v)}>
             ⭐ {isPl ? "Ulubione" : "Favorites"}
           </button>
+          <button
+            className="ghost"
+            disabled={filteredPrompts.length === 0}
+            onClick={() => setBulkIds(filteredPrompts.map((prompt) => prompt.id))}
+          >
+            {isPl ? `Zaznacz widoczne (${filteredPrompts.length})` : `Select all (${filteredPrompts.length})`}
+          </button>
+          <button
+            className="ghost"
+            disabled={filteredPrompts.length === 0}
+            onClick={() => onExportFiltered(filteredPrompts.map((prompt) => prompt.id))}
+          >
+            {isPl ? `Eksportuj widoczne (${filteredPrompts.length})` : `Export these (${filteredPrompts.length})`}
+          </button>
+          <button className="ghost" onClick={() => setReplaceOpen(true)}>
+            {isPl ? "Znajdź i zamień" : "Find and replace"}
+          </button>
           <button onClick={() => navigate("create")}>{isPl ? "+ Dodaj prompt" : "+ Add prompt"}</button>
         </div>
       </section>
@@ -906,6 +1953,11 @@ function PromptsPage({
           value={search}
           onChange={(e) => setSearch(e.target.value)}
           placeholder={isPl ? "Szukaj promptów... (Ctrl/Cmd+K)" : "Search prompts... (Ctrl/Cmd+K)"}
+          title={
+            isPl
+              ? 'Operatory: tag:nazwa, cat:kategoria, fav:tak/nie, "dokładna fraza", -wyklucz'
+              : 'Operators: tag:name, cat:category, fav:yes/no, "exact phrase", -exclude'
+          }
         />
         <input
           className="tag-search"
@@ -931,15 +1983,105 @@ function PromptsPage({
         </div>
       </section>
 
+      {bulkIds.length > 0 ? (
+        <section className="bulk-bar">
+          <strong>{isPl ? `Zaznaczone: ${bulkIds.length}` : `Selected: ${bulkIds.length}`}</strong>
+          <button className="ghost" onClick={() => setBulkIds(filteredPrompts.map((prompt) => prompt.id))}>
+            {isPl ? "Zaznacz widoczne" : "Select all filtered"}
+          </button>
+          <button className="ghost" onClick={() => setBulkIds([])}>{isPl ? "Odznacz" : "Clear"}</button>
+          <span className="bulk-group">
+            <select value={bulkCategory} onChange={(e) => setBulkCategory(e.target.value)}>
+              <CategoryOptions categories={categories} uncategorizedLabel={isPl ? "Bez kategorii" : "Uncategorized"} />
+            </select>
+            <button className="ghost" onClick={() => runBulk({ type: "move", categoryId: bulkCategory })}>
+              {isPl ? "Przenieś" : "Move"}
+            </button>
+          </span>
+          <span className="bulk-group">
+            <input
+              value={bulkTags}
+              onChange={(e) => setBulkTags(e.target.value)}
+              placeholder={isPl ? "tagi, po przecinku" : "tags, comma-separated"}
+            />
+            <button
+              className="ghost"
+              disabled={bulkTagList().length === 0}
+              onClick={() => runBulk({ type: "addTags", tags: bulkTagList() })}
+            >
+              {isPl ? "Dodaj tagi" : "Add tags"}
+            </button>
+            <button
+              className="ghost"
+              disabled={bulkTagList().length === 0}
+              onClick={() => runBulk({ type: "removeTags", tags: bulkTagList() })}
+            >
+              {isPl ? "Usuń tagi" : "Remove tags"}
+            </button>
+          </span>
+          <button className="ghost" onClick={() => runBulk({ type: "favorite", favorite: true })}>
+            ★ {isPl ? "Ulubione" : "Favorite"}
+          </button>
+          <button className="ghost" onClick={() => runBulk({ type: "favorite", favorite: false })}>
+            ☆ {isPl ? "Usuń z ulubionych" : "Unfavorite"}
+          </button>
+          <button
+            className="ghost"
+            onClick={() => runBulk({ type: "duplicate", titleSuffix: isPl ? "(kopia)" : "(copy)" })}
+          >
+            {isPl ? "Duplikuj" : "Duplicate"}
+          </button>
+          <button className="ghost" onClick={() => onExportFiltered(bulkIds)}>{isPl ? "Eksportuj" : "Export"}</button>
+          {confirmBulkDelete ? (
+            <>
+              <button className="danger" onClick={() => runBulk({ type: "delete" })}>
+                {isPl ? `Potwierdź usunięcie (${bulkIds.length})` : `Confirm delete (${bulkIds.length})`}
+              </button>
+              <button className="ghost" onClick={() => setConfirmBulkDelete(false)}>{isPl ? "Anuluj" : "Cancel"}</button>
+            </>
+          ) : (
+            <button className="danger" onClick={() => setConfirmBulkDelete(true)}>{isPl ? "Usuń" : "Delete"}</button>
+          )}
+        </section>
+      ) : null}
+
       <section className="library-grid">
         {filteredPrompts.map((prompt) => (
           <article
             key={prompt.id}
-            className={selectedPromptId === prompt.id ? "library-card selected" : "library-card"}
-            onClick={() => setSelectedPromptId(prompt.id)}
+            className={[
+              "library-card",
+              selectedPromptId === prompt.id ? "selected" : "",
+              bulkIds.includes(prompt.id) ? "bulk-selected" : ""
+            ].filter(Boolean).join(" ")}
+            draggable
+            onDragStart={(event) => {
+              // Dragging a selected card carries the whole selection.
+              const ids = bulkIds.includes(prompt.id) ? bulkIds : [prompt.id];
+              event.dataTransfer.setData(PROMPT_DRAG_TYPE, JSON.stringify(ids));
+              event.dataTransfer.effectAllowed = "move";
+            }}
+            onClick={(event) => {
+              // While a selection exists, clicks extend it instead of opening the preview.
+              if (bulkIds.length > 0 || event.shiftKey) toggleBulk(prompt.id, event.shiftKey);
+              else setSelectedPromptId(prompt.id);
+            }}
           >
             <div className="row-between">
-              <h3>{prompt.title}</h3>
+              <input
+                type="checkbox"
+                className="card-select"
+                checked={bulkIds.includes(prompt.id)}
+                aria-label={isPl ? "Zaznacz prompt" : "Select prompt"}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  toggleBulk(prompt.id, event.shiftKey);
+                }}
+                onChange={() => undefined}
+              />
+              <h3>
+                <HighlightedText text={prompt.title} ranges={highlightRanges(prompt.title, searchMatches.get(prompt.id))} />
+              </h3>
               {prompt.favorite ? <span>⭐</span> : null}
             </div>
             <div className="tag-cloud">
@@ -948,19 +2090,38 @@ function PromptsPage({
                   ? (isPl ? "Bez kategorii" : "Uncategorized")
                   : (categoryMap.get(prompt.categoryId) ?? (isPl ? "Bez kategorii" : "Uncategorized"))}
               </span>
+              {prompt.source ? <span className="chip">{siteLabel(prompt.source.site)}</span> : null}
               {prompt.tags.slice(0, 2).map((tag) => (
                 <span key={tag} className="chip chip-purple">
                   {tag}
                 </span>
               ))}
             </div>
-            <p>{prompt.content.slice(0, 170)}{prompt.content.length > 170 ? "..." : ""}</p>
-            <small>{isPl ? "Aktualizacja" : "Updated"}: {new Date(prompt.updatedAt).toLocaleDateString()}</small>
+            <p>
+              <ContentSnippet text={prompt.content} matches={searchMatches.get(prompt.id)} length={170} />
+            </p>
+            <small>
+              {isPl ? "Aktualizacja" : "Updated"}: {new Date(prompt.updatedAt).toLocaleDateString()}
+              {prompt.useCount > 0 ? ` · ${isPl ? "Użyto" : "Used"} ${prompt.useCount}×` : ""}
+            </small>
           </article>
         ))}
         {filteredPrompts.length === 0 ? <div className="surface">{isPl ? "Brak wyników dla aktualnych filtrów." : "No results for current filters."}</div> : null}
       </section>
 
+      {replaceOpen ? (
+        <LibraryReplacePanel
+          lib={lib}
+          viewPrompts={filteredPrompts}
+          onOpenPrompt={(id) => {
+            setReplaceOpen(false);
+            setSelectedPromptId(id);
+          }}
+          onClose={() => setReplaceOpen(false)}
+          language={language}
+        />
+      ) : null}
+
       {selectedPrompt ? (
         <section className="prompt-preview-backdrop" onClick={() => setSelectedPromptId(null)}>
           <article className="prompt-preview" onClick={(event) => event.stopPropagation()}>
@@ -980,11 +2141,129 @@ function PromptsPage({
               ))}
             </div>
 
-            <pre>{selectedPrompt.content}</pre>
+            {selectedPrompt.source ? (
+              <dl className="source-details">
+                <dt>{isPl ? "Źródło" : "Source"}</dt>
+                <dd>
+                  {selectedPrompt.source.url ? (
+                    <a href={selectedPrompt.source.url} target="_blank" rel="noreferrer">{siteLabel(selectedPrompt.source.site)}</a>
+                  ) : (
+                    siteLabel(selectedPrompt.source.site)
+                  )}
+                </dd>
+                {selectedPrompt.source.conversationTitle ? (
+                  <>
+                    <dt>{isPl ? "Rozmowa" : "Conversation"}</dt>
+                    <dd>{selectedPrompt.source.conversationTitle}</dd>
+                  </>
+                ) : null}
+                {selectedPrompt.source.model ? (
+                  <>
+                    <dt>{isPl ? "Model" : "Model"}</dt>
+                    <dd>{selectedPrompt.source.model}</dd>
+                  </>
+                ) : null}
+                {selectedPrompt.source.capturedAt ? (
+                  <>
+                    <dt>{isPl ? "Zapisano" : "Captured"}</dt>
+                    <dd>{new Date(selectedPrompt.source.capturedAt).toLocaleString()}</dd>
+                  </>
+                ) : null}
+              </dl>
+            ) : null}
+
+            {selectedDelivered && selectedDelivered.variables.length > 0 ? (
+              <div className="tag-cloud variable-chips">
+                {selectedDelivered.variables.map((variable) => (
+                  <span
+                    key={variable.name}
+                    className="chip chip-variable"
+                    title={variable.options.length > 0 ? variable.options.join(" | ") : variable.defaultValue}
+                  >
+                    {`{{${variable.name}}}`}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+
+            {selectedIncludes.length > 0 ? (
+              <div className="tag-cloud">
+                <small className="site-hint">{isPl ? "Fragmenty:" : "Snippets:"}</small>
+                {selectedIncludes.map((name) => {
+                  const snippet = lib.db.snippets.find((s) => s.name.toLowerCase() === name.toLowerCase());
+                  return snippet ? (
+                    <button key={name} className="chip chip-snippet" onClick={() => navigate("snippets", { edit: snippet.id })}>
+                      {includeToken(snippet.name)}
+                    </button>
+                  ) : (
+                    <span key={name} className="chip chip-missing" title={isPl ? "Brak takiego fragmentu" : "No such snippet"}>
+                      {includeToken(name)}
+                    </span>
+                  );
+                })}
+              </div>
+            ) : null}
+
+            {selectedChains.length > 0 ? (
+              <div className="tag-cloud">
+                <small className="site-hint">{isPl ? "W łańcuchach:" : "In chains:"}</small>
+                {selectedChains.map((chain) => (
+                  <button key={chain.id} className="tag-pill" onClick={() => navigate("chains", { run: chain.id })}>
+                    ⛓ {chain.title}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {fillingVariables && selectedDelivered ? (
+              <VariableFillForm
+                prompt={selectedDelivered}
+                remembered={lib.variableValues}
+                onSubmit={(values) => {
+                  void lib.copyPrompt(selectedPrompt.id, values);
+                  setFillingVariables(false);
+                }}
+                onCancel={() => setFillingVariables(false)}
+                language={language}
+              />
+            ) : markdownPreview && selectedDelivered ? (
+              <MarkdownView text={selectedDelivered.content} />
+            ) : (
+              <pre>
+                <HighlightedText
+                  text={selectedPrompt.content}
+                  ranges={highlightRanges(selectedPrompt.content, searchMatches.get(selectedPrompt.id))}
+                />
+              </pre>
+            )}
+
+            {selectedPrompt.examples.length > 0 ? (
+              <ExamplesList examples={selectedPrompt.examples} language={language} />
+            ) : null}
+
+            {historyOpen ? (
+              <PromptHistoryPanel
+                prompt={selectedPrompt}
+                onRestore={(revisionId) => lib.restoreRevision(selectedPrompt.id, revisionId)}
+                language={language}
+              />
+            ) : null}
 
             <div className="row-gap">
-              <button onClick={() => void lib.copyPrompt(selectedPrompt.id)}>{isPl ? "Kopiuj" : "Copy"}</button>
+              <button onClick={() => startCopy(selectedPrompt.id)}>{isPl ? "Kopiuj" : "Copy"}</button>
               <button className="ghost" onClick={() => navigate("create", { id: selectedPrompt.id })}>{isPl ? "Edytuj" : "Edit"}</button>
+              <button className="ghost" onClick={() => lib.toggleFavorite(selectedPrompt.id)}>
+                {selectedPrompt.favorite ? "★" : "☆"} {isPl ? "Ulubiony" : "Favorite"}
+              </button>
+              <button
+                className={markdownPreview ? "ghost active-filter" : "ghost"}
+                onClick={() => setMarkdownPreview((v) => !v)}
+              >
+                Markdown
+              </button>
+              <button className={historyOpen ? "ghost active-filter" : "ghost"} onClick={() => setHistoryOpen((v) => !v)}>
+                {isPl ? "Historia" : "History"} ({selectedPrompt.revisions.length})
+              </button>
               <button
                 className="ghost"
                 onClick={() => {
@@ -1032,6 +2311,12 @@ function CreatePromptPage({
 
   const [draft, setDraft] = useState<PromptDraft>(lib.createPrompt());
   const [newTagInput, setNewTagInput] = useState("");
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  // Counts and context warnings are for what gets delivered, i.e. with snippets expanded.
+  const expandedContent = useMemo(
+    () => expandIncludes(draft.content, lib.db.snippets).text,
+    [draft.content, lib.db.snippets]
+  );
 
   useEffect(() => {
     if (!editingPrompt) {
@@ -1045,7 +2330,8 @@ function CreatePromptPage({
       categoryId: editingPrompt.categoryId,
       content: editingPrompt.content,
       tags: editingPrompt.tags,
-      favorite: editingPrompt.favorite
+      favorite: editingPrompt.favorite,
+      examples: editingPrompt.examples
     });
   }, [editingPrompt, lib]);
 
@@ -1071,6 +2357,18 @@ function CreatePromptPage({
     setDraft((prev) => ({ ...prev, tags: prev.tags.filter((t) => t !== tag) }));
   }
 
+  function insertInclude(name: string) {
+    const textarea = contentRef.current;
+    const token = includeToken(name);
+    const start = textarea?.selectionStart ?? draft.content.length;
+    const end = textarea?.selectionEnd ?? start;
+    setDraft((prev) => ({ ...prev, content: prev.content.slice(0, start) + token + prev.content.slice(end) }));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
   function onSubmit(event: FormEvent) {
     event.preventDefault();
     const promptId = lib.upsertPrompt(draft);
@@ -1100,23 +2398,52 @@ function CreatePromptPage({
             value={draft.categoryId}
             onChange={(e) => setDraft((prev) => ({ ...prev, categoryId: e.target.value }))}
           >
-            {lib.db.categories.map((category) => (
-              <option key={category.id} value={category.id}>
-                {category.id === UNCATEGORIZED_ID ? (isPl ? "Bez kategorii" : "Uncategorized") : category.name}
-              </option>
-            ))}
+            <CategoryOptions categories={lib.db.categories} uncategorizedLabel={isPl ? "Bez kategorii" : "Uncategorized"} />
           </select>
         </label>
 
-        <label>
-          {isPl ? "Treść" : "Content"} *
-          <textarea
+        <div className="editor-field">
+          <span>{isPl ? "Treść" : "Content"} *</span>
+          <PromptEditor
             value={draft.content}
-            onChange={(e) => setDraft((prev) => ({ ...prev, content: e.target.value }))}
-            rows={16}
+            onChange={(content) => setDraft((prev) => ({ ...prev, content }))}
+            textareaRef={contentRef}
+            statsText={expandedContent}
+            language={language}
             required
           />
-        </label>
+        </div>
+
+        {lib.db.snippets.length > 0 ? (
+          <label>
+            {isPl ? "Wstaw fragment" : "Insert snippet"}
+            <select
+              value=""
+              onChange={(e) => {
+                if (e.target.value) insertInclude(e.target.value);
+              }}
+            >
+              <option value="">{isPl ? "Wybierz fragment..." : "Choose a snippet..."}</option>
+              {lib.db.snippets.map((snippet) => (
+                <option key={snippet.id} value={snippet.name}>
+                  {snippet.name}{snippet.description ? ` - ${snippet.description}` : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
+        <ExpandedPreview content={draft.content} snippets={lib.db.snippets} language={language} />
+
+        {draft.examples.length > 0 ? (
+          <ExamplesList
+            examples={draft.examples}
+            onRemove={(index) =>
+              setDraft((prev) => ({ ...prev, examples: prev.examples.filter((_, i) => i !== index) }))
+            }
+            language={language}
+          />
+        ) : null}
 
         <label className="checkbox-row">
           <input
@@ -1179,59 +2506,946 @@ function CreatePromptPage({
   );
 }
 
+// Fully expanded text of `content`, with missing snippets and include cycles called out.
+// Renders nothing when the text has no includes.
+function ExpandedPreview({ content, snippets, language }: { content: string; snippets: Snippet[]; language: Language }) {
+  const isPl = language === "pl";
+  const expansion = useMemo(() => expandIncludes(content, snippets), [content, snippets]);
+  if (includedNames(content).length === 0) return null;
+
+  return (
+    <div className="expanded-preview">
+      <strong>{isPl ? "Podgląd po rozwinięciu fragmentów" : "Preview with snippets expanded"}</strong>
+      {expansion.missing.length > 0 ? (
+        <p className="import-error">
+          {isPl ? "Brak fragmentów" : "Missing snippets"}: {expansion.missing.map(includeToken).join(", ")}
+        </p>
+      ) : null}
+      {expansion.cycle ? (
+        <p className="import-error">
+          {isPl ? "Cykl dołączeń" : "Include cycle"}: {expansion.cycle.join(" → ")}
+        </p>
+      ) : null}
+      <pre>{expansion.text}</pre>
+    </div>
+  );
+}
+
+function readDragIds(event: DragEvent<HTMLElement>): string[] {
+  try {
+    const ids: unknown = JSON.parse(event.dataTransfer.getData(PROMPT_DRAG_TYPE) || "[]");
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function isLibraryDrag(event: DragEvent<HTMLElement>) {
+  const types = Array.from(event.dataTransfer.types);
+  return types.includes(PROMPT_DRAG_TYPE) || types.includes(CATEGORY_DRAG_TYPE);
+}
+
+/**
+ * Collapsible category tree. Rows accept dropped prompts (moved into the category) and dropped
+ * categories (nested under it); counts include subcategories.
+ */
+function CategoryTree({
+  lib,
+  language,
+  onSelect,
+  renderActions,
+  rootDropLabel
+}: {
+  lib: LibraryApi;
+  language: Language;
+  onSelect?: (id: string) => void;
+  renderActions?: (category: Category) => ReactNode;
+  // When set, a drop zone below the tree moves dropped categories to the top level.
+  rootDropLabel?: string;
+}) {
+  const isPl = language === "pl";
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const categories = lib.db.categories;
+
+  const totals = useMemo(() => {
+    const direct = new Map<string, number>();
+    for (const prompt of lib.db.prompts) direct.set(prompt.categoryId, (direct.get(prompt.categoryId) ?? 0) + 1);
+    return new Map(
+      categories.map((category) => [
+        category.id,
+        Array.from(descendantIds(categories, category.id)).reduce((sum, id) => sum + (direct.get(id) ?? 0), 0)
+      ])
+    );
+  }, [categories, lib.db.prompts]);
+
+  const rows = useMemo(() => {
+    let collapsedDepth = Infinity;
+    return flattenCategoryTree(categories).filter((row) => {
+      if (row.depth > collapsedDepth) return false;
+      collapsedDepth = collapsed.has(row.category.id) ? row.depth : Infinity;
+      return true;
+    });
+  }, [categories, collapsed]);
+
+  function toggle(id: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function drop(event: DragEvent<HTMLElement>, targetId: string | null) {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTargetId(null);
+    const categoryId = event.dataTransfer.getData(CATEGORY_DRAG_TYPE);
+    if (categoryId) {
+      if (categoryId !== targetId) lib.moveCategory(categoryId, targetId);
+      return;
+    }
+    const promptIds = readDragIds(event);
+    if (targetId && promptIds.length > 0) lib.applyBatch(promptIds, { type: "move", categoryId: targetId });
+  }
+
+  function dragOver(event: DragEvent<HTMLElement>, targetId: string) {
+    if (!isLibraryDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropTargetId(targetId);
+  }
+
+  return (
+    <>
+      <ul className="category-tree">
+        {rows.map(({ category, depth, hasChildren }) => {
+          const label = category.id === UNCATEGORIZED_ID ? (isPl ? "Bez kategorii" : "Uncategorized") : category.name;
+          return (
+            <li
+              key={category.id}
+              className={[
+                "category-tree-row",
+                dropTargetId === category.id ? "drop-target" : ""
+              ].filter(Boolean).join(" ")}
+              style={{ paddingLeft: `${depth * 1.1}rem` }}
+              draggable={category.id !== UNCATEGORIZED_ID}
+              onDragStart={(event) => {
+                event.stopPropagation();
+                event.dataTransfer.setData(CATEGORY_DRAG_TYPE, category.id);
+                event.dataTransfer.effectAllowed = "move";
+              }}
+              onDragOver={(event) => dragOver(event, category.id)}
+              onDragLeave={() => setDropTargetId((prev) => (prev === category.id ? null : prev))}
+              onDrop={(event) => drop(event, category.id)}
+            >
+              {hasChildren ? (
+                <button
+                  className="tree-toggle"
+                  aria-label={collapsed.has(category.id) ? (isPl ? "Rozwiń" : "Expand") : (isPl ? "Zwiń" : "Collapse")}
+                  onClick={() => toggle(category.id)}
+                >
+                  {collapsed.has(category.id) ? "▸" : "▾"}
+                </button>
+              ) : (
+                <span className="tree-toggle" />
+              )}
+              {onSelect ? (
+                <button className="tree-label" onClick={() => onSelect(category.id)}>{label}</button>
+              ) : (
+                <span className="tree-label">{label}</span>
+              )}
+              <span className="tree-count">{totals.get(category.id) ?? 0}</span>
+              {renderActions?.(category)}
+            </li>
+          );
+        })}
+      </ul>
+      {rootDropLabel ? (
+        <div
+          className={dropTargetId === "" ? "category-root-drop drop-target" : "category-root-drop"}
+          onDragOver={(event) => dragOver(event, "")}
+          onDragLeave={() => setDropTargetId((prev) => (prev === "" ? null : prev))}
+          onDrop={(event) => drop(event, null)}
+        >
+          {rootDropLabel}
+        </div>
+      ) : null}
+    </>
+  );
+}
+
 function CategoriesPage({ lib, language }: { lib: LibraryApi; language: Language }) {
   const isPl = language === "pl";
+  const newNameRef = useRef<HTMLInputElement>(null);
   const [newName, setNewName] = useState("");
+  const [newParentId, setNewParentId] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
 
-  const counts = useMemo(() => {
-    const map = new Map<string, number>();
-    for (const category of lib.db.categories) map.set(category.id, 0);
-    for (const prompt of lib.db.prompts) {
-      map.set(prompt.categoryId, (map.get(prompt.categoryId) || 0) + 1);
+  const categories = lib.db.categories;
+
+  function subtreePromptCount(id: string) {
+    const subtree = descendantIds(categories, id);
+    return lib.db.prompts.filter((prompt) => subtree.has(prompt.categoryId)).length;
+  }
+
+  function renderActions(category: Category) {
+    if (category.id === UNCATEGORIZED_ID) {
+      return <small className="site-hint">{isPl ? "Kategoria systemowa" : "System category"}</small>;
     }
-    return map;
-  }, [lib.db.categories, lib.db.prompts]);
+
+    if (editingId === category.id) {
+      return (
+        <span className="row-gap">
+          <input value={editingName} onChange={(e) => setEditingName(e.target.value)} />
+          <button className="ghost" onClick={() => { lib.renameCategory(category.id, editingName); setEditingId(null); setEditingName(""); }}>{isPl ? "Zapisz" : "Save"}</button>
+          <button className="ghost" onClick={() => { setEditingId(null); setEditingName(""); }}>{isPl ? "Anuluj" : "Cancel"}</button>
+        </span>
+      );
+    }
+
+    if (confirmDeleteId === category.id) {
+      const count = subtreePromptCount(category.id);
+      return (
+        <span className="row-gap">
+          <button className="ghost" onClick={() => { lib.deleteCategory(category.id, "reparent"); setConfirmDeleteId(null); }}>
+            {isPl ? "Usuń, zawartość w górę" : "Delete, move contents up"}
+          </button>
+          <button className="danger" onClick={() => { lib.deleteCategory(category.id, "cascade"); setConfirmDeleteId(null); }}>
+            {isPl ? `Usuń z zawartością (${count} do kosza)` : `Delete with contents (${count} to trash)`}
+          </button>
+          <button className="ghost" onClick={() => setConfirmDeleteId(null)}>{isPl ? "Anuluj" : "Cancel"}</button>
+        </span>
+      );
+    }
+
+    return (
+      <span className="row-gap">
+        <button className="ghost" onClick={() => { setNewParentId(category.id); newNameRef.current?.focus(); }}>
+          {isPl ? "Podkategoria" : "Subcategory"}
+        </button>
+        <button className="ghost" onClick={() => { setEditingId(category.id); setEditingName(category.name); }}>{isPl ? "Zmień nazwę" : "Rename"}</button>
+        <button className="danger" onClick={() => setConfirmDeleteId(category.id)}>{isPl ? "Usuń" : "Delete"}</button>
+      </span>
+    );
+  }
 
   return (
     <div className="surface">
       <div className="section-title-row">
         <h2>{isPl ? "Zarządzanie kategoriami" : "Manage categories"}</h2>
         <div className="row-gap">
-          <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder={isPl ? "Nowa kategoria" : "New category"} />
-          <button onClick={() => { lib.createCategory(newName); setNewName(""); }}>{isPl ? "Dodaj" : "Add"}</button>
+          <input ref={newNameRef} value={newName} onChange={(e) => setNewName(e.target.value)} placeholder={isPl ? "Nowa kategoria" : "New category"} />
+          <select value={newParentId} onChange={(e) => setNewParentId(e.target.value)} aria-label={isPl ? "Kategoria nadrzędna" : "Parent category"}>
+            <option value="">{isPl ? "Najwyższy poziom" : "Top level"}</option>
+            <CategoryOptions
+              categories={categories}
+              uncategorizedLabel={isPl ? "Bez kategorii" : "Uncategorized"}
+              exclude={new Set([UNCATEGORIZED_ID])}
+            />
+          </select>
+          <button onClick={() => { lib.createCategory(newName, newParentId || null); setNewName(""); }}>{isPl ? "Dodaj" : "Add"}</button>
         </div>
       </div>
 
-      <div className="category-grid">
-        {lib.db.categories.map((category) => (
-          <article key={category.id} className="category-card">
-            {editingId === category.id ? (
-              <>
-                <input value={editingName} onChange={(e) => setEditingName(e.target.value)} />
-                <div className="row-gap">
-                  <button className="ghost" onClick={() => { lib.renameCategory(category.id, editingName); setEditingId(null); setEditingName(""); }}>{isPl ? "Zapisz" : "Save"}</button>
-                  <button className="ghost" onClick={() => { setEditingId(null); setEditingName(""); }}>{isPl ? "Anuluj" : "Cancel"}</button>
-                </div>
-              </>
-            ) : (
-              <>
-                <h3>{category.id === UNCATEGORIZED_ID ? (isPl ? "Bez kategorii" : "Uncategorized") : category.name}</h3>
-                <p>{counts.get(category.id) || 0} {isPl ? "promptów" : "prompts"}</p>
-                <small>{isPl ? "Utworzono" : "Created"}: {new Date(category.createdAt).toLocaleDateString()}</small>
-                <div className="row-gap">
-                  {category.id !== UNCATEGORIZED_ID ? (
-                    <>
-                      <button className="ghost" onClick={() => { setEditingId(category.id); setEditingName(category.name); }}>{isPl ? "Zmień nazwę" : "Rename"}</button>
-                      <button className="danger" onClick={() => lib.deleteCategory(category.id)}>{isPl ? "Usuń" : "Delete"}</button>
-                    </>
-                  ) : (
-                    <button className="ghost" disabled>{isPl ? "Kategoria systemowa" : "System category"}</button>
-                  )}
-                </div>
-              </>
-            )}
+      <p className="site-hint">
+        {isPl
+          ? "Przeciągnij kategorię na inną, aby ją zagnieździć, albo przeciągnij prompty z biblioteki, aby je przenieść."
+          : "Drag a category onto another to nest it, or drag prompts from the library to move them."}
+      </p>
+      <CategoryTree
+        lib={lib}
+        language={language}
+        renderActions={renderActions}
+        rootDropLabel={isPl ? "Upuść tutaj, aby przenieść na najwyższy poziom" : "Drop here to move to the top level"}
+      />
+    </div>
+  );
+}
+
+const DUPLICATE_THRESHOLDS = [0.95, 0.9, 0.8, 0.7, 0.6];
+
+function DuplicatesPage({
+  lib,
+  navigate,
+  language
+}: {
+  lib: LibraryApi;
+  navigate: (page: AppPage, params?: Record<string, string>) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+  const categoryMap = useMemo(() => categoryPathLabels(lib.db.categories), [lib.db.categories]);
+  const clusters = useMemo(() => findDuplicateClusters(lib.db.prompts, threshold), [lib.db.prompts, threshold]);
+
+  return (
+    <div className="surface">
+      <div className="section-title-row">
+        <h2>{isPl ? "Duplikaty i prawie-duplikaty" : "Duplicates and near-duplicates"}</h2>
+        <label>
+          {isPl ? "Podobieństwo" : "Similarity"}
+          <select value={threshold} onChange={(e) => setThreshold(Number(e.target.value))}>
+            {DUPLICATE_THRESHOLDS.map((value) => (
+              <option key={value} value={value}>≥ {Math.round(value * 100)}%</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="site-hint">
+        {isPl
+          ? "Scalenie zostawia wybrany prompt, łączy tagi i przykłady, bierze najwcześniejszą datę utworzenia i ostatnie użycie, a pozostałe usuwa."
+          : "Merging keeps the chosen prompt, combines tags and examples, takes the earliest creation date and latest use, and removes the others."}
+      </p>
+
+      {clusters.length === 0 ? (
+        <p>{isPl ? "Nie znaleziono podobnych promptów." : "No similar prompts found."}</p>
+      ) : null}
+
+      {clusters.map((cluster) => (
+        <section key={cluster.prompts.map((p) => p.id).join(":")} className="duplicate-cluster">
+          <h3>
+            {cluster.prompts.length} {isPl ? "promptów" : "prompts"} · {isPl ? "podobieństwo" : "similarity"} ≥{" "}
+            {Math.floor(cluster.similarity * 100)}%
+          </h3>
+          <div className="duplicate-columns">
+            {cluster.prompts.map((prompt) => {
+              const others = cluster.prompts.filter((p) => p.id !== prompt.id).map((p) => p.id);
+              return (
+                <article key={prompt.id} className="duplicate-card">
+                  <strong>{prompt.favorite ? "⭐ " : ""}{prompt.title}</strong>
+                  <small>
+                    {prompt.categoryId === UNCATEGORIZED_ID
+                      ? (isPl ? "Bez kategorii" : "Uncategorized")
+                      : categoryMap.get(prompt.categoryId) ?? ""}
+                    {" · "}
+                    {isPl ? "Utworzono" : "Created"}: {new Date(prompt.createdAt).toLocaleDateString()}
+                    {" · "}
+                    {isPl ? "Użyto" : "Used"}: {prompt.lastUsedAt ? new Date(prompt.lastUsedAt).toLocaleDateString() : (isPl ? "nigdy" : "never")}
+                  </small>
+                  {prompt.tags.length > 0 ? (
+                    <div className="row-gap">
+                      {prompt.tags.map((tag) => <span key={tag} className="chip">{tag}</span>)}
+                    </div>
+                  ) : null}
+                  <pre className="duplicate-content">{prompt.content}</pre>
+                  <div className="row-gap">
+                    <button onClick={() => lib.mergePrompts(prompt.id, others)}>
+                      {isPl ? "Zostaw ten, scal resztę" : "Keep this, merge others"}
+                    </button>
+                    <button className="ghost" onClick={() => navigate("prompts", { prompt: prompt.id })}>
+                      {isPl ? "Otwórz" : "Open"}
+                    </button>
+                    <button className="danger" onClick={() => lib.deletePrompt(prompt.id)}>
+                      {isPl ? "Usuń" : "Delete"}
+                    </button>
+                  </div>
+                </article>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function ChainsPage({
+  lib,
+  params,
+  navigate,
+  language
+}: {
+  lib: LibraryApi;
+  params: URLSearchParams;
+  navigate: (page: AppPage, params?: Record<string, string>) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const runId = params.get("run");
+  const editId = params.get("edit");
+  const chains = useMemo(
+    () => [...lib.db.chains].sort((a, b) => a.title.localeCompare(b.title, isPl ? "pl" : "en", { sensitivity: "base" })),
+    [lib.db.chains, isPl]
+  );
+
+  const running = runId ? lib.db.chains.find((chain) => chain.id === runId) ?? null : null;
+  if (running) {
+    return <ChainRunner key={running.id} lib={lib} chain={running} navigate={navigate} language={language} />;
+  }
+  if (editId) {
+    const editing = editId === "new" ? null : lib.db.chains.find((chain) => chain.id === editId) ?? null;
+    return (
+      <ChainEditor key={editId} lib={lib} chain={editing} navigate={navigate} language={language} />
+    );
+  }
+
+  return (
+    <div className="surface">
+      <div className="section-title-row">
+        <h2>{isPl ? "Łańcuchy promptów" : "Prompt chains"}</h2>
+        <button onClick={() => navigate("chains", { edit: "new" })}>{isPl ? "Nowy łańcuch" : "New chain"}</button>
+      </div>
+      <p className="site-hint">
+        {isPl
+          ? "Łańcuch to uporządkowana lista promptów wysyłanych po kolei, np. analiza → szkic → poprawki."
+          : "A chain is an ordered list of prompts sent one after another, e.g. analyse → draft → refine."}
+      </p>
+
+      {chains.length === 0 ? <p>{isPl ? "Brak łańcuchów." : "No chains yet."}</p> : null}
+
+      <div className="chain-list">
+        {chains.map((chain) => {
+          const missing = resolveChainSteps(lib.db, chain).filter((entry) => !entry.prompt).length;
+          return (
+            <article key={chain.id} className="chain-card">
+              <div>
+                <strong>{chain.title}</strong>
+                <small>
+                  {chain.steps.length} {isPl ? "kroków" : "steps"}
+                  {missing > 0 ? ` · ${missing} ${isPl ? "w koszu" : "in trash"}` : ""}
+                </small>
+                {chain.description ? <p>{chain.description}</p> : null}
+              </div>
+              <div className="row-gap">
+                <button onClick={() => navigate("chains", { run: chain.id })}>{isPl ? "Uruchom" : "Run"}</button>
+                <button className="ghost" onClick={() => navigate("chains", { edit: chain.id })}>
+                  {isPl ? "Edytuj" : "Edit"}
+                </button>
+                {confirmDeleteId === chain.id ? (
+                  <>
+                    <button
+                      className="danger"
+                      onClick={() => {
+                        lib.deleteChain(chain.id);
+                        setConfirmDeleteId(null);
+                      }}
+                    >
+                      {isPl ? "Potwierdź usunięcie" : "Confirm delete"}
+                    </button>
+                    <button className="ghost" onClick={() => setConfirmDeleteId(null)}>{isPl ? "Anuluj" : "Cancel"}</button>
+                  </>
+                ) : (
+                  <button className="danger" onClick={() => setConfirmDeleteId(chain.id)}>{isPl ? "Usuń" : "Delete"}</button>
+                )}
+              </div>
+            </article>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ChainEditor({
+  lib,
+  chain,
+  navigate,
+  language
+}: {
+  lib: LibraryApi;
+  chain: PromptChain | null;
+  navigate: (page: AppPage, params?: Record<string, string>) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const [draft, setDraft] = useState<ChainDraft>(() =>
+    chain
+      ? { id: chain.id, title: chain.title, description: chain.description, steps: chain.steps }
+      : { title: "", description: "", steps: [] }
+  );
+  const promptMap = useMemo(() => new Map(lib.db.prompts.map((prompt) => [prompt.id, prompt])), [lib.db.prompts]);
+  const promptOptions = useMemo(
+    () => [...lib.db.prompts].sort((a, b) => a.title.localeCompare(b.title, isPl ? "pl" : "en", { sensitivity: "base" })),
+    [lib.db.prompts, isPl]
+  );
+
+  const updateStep = (index: number, patch: Partial<ChainStep>) =>
+    setDraft((prev) => ({ ...prev, steps: prev.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) }));
+  const moveStep = (index: number, offset: number) =>
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.steps.length) return prev;
+      const steps = [...prev.steps];
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...prev, steps };
+    });
+
+  return (
+    <form
+      className="surface form-grid"
+      onSubmit={(event) => {
+        event.preventDefault();
+        const id = lib.saveChain(draft);
+        if (id) navigate("chains");
+      }}
+    >
+      <h2>{chain ? (isPl ? "Edytuj łańcuch" : "Edit chain") : isPl ? "Nowy łańcuch" : "New chain"}</h2>
+      <label>
+        {isPl ? "Nazwa" : "Title"}
+        <input value={draft.title} onChange={(e) => setDraft((prev) => ({ ...prev, title: e.target.value }))} />
+      </label>
+      <label>
+        {isPl ? "Opis" : "Description"}
+        <textarea
+          rows={2}
+          value={draft.description}
+          onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+        />
+      </label>
+
+      <div className="chain-steps">
+        {draft.steps.map((step, index) => (
+          <div key={step.id} className="chain-step-row">
+            <span className="chain-step-index">{index + 1}.</span>
+            <select value={step.promptId} onChange={(e) => updateStep(index, { promptId: e.target.value })}>
+              {promptMap.has(step.promptId) ? null : (
+                <option value={step.promptId}>{isPl ? "(prompt w koszu)" : "(prompt in trash)"}</option>
+              )}
+              {promptOptions.map((prompt) => (
+                <option key={prompt.id} value={prompt.id}>{prompt.title}</option>
+              ))}
+            </select>
+            <input
+              placeholder={isPl ? "Notatka do kroku (opcjonalnie)" : "Step note (optional)"}
+              value={step.note}
+              onChange={(e) => updateStep(index, { note: e.target.value })}
+            />
+            <button type="button" className="ghost" disabled={index === 0} onClick={() => moveStep(index, -1)}>↑</button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={index === draft.steps.length - 1}
+              onClick={() => moveStep(index, 1)}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              className="danger"
+              onClick={() => setDraft((prev) => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+            >
+              {isPl ? "Usuń" : "Remove"}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <label>
+        {isPl ? "Dodaj krok" : "Add step"}
+        <select
+          value=""
+          onChange={(e) => {
+            const promptId = e.target.value;
+            if (promptId) setDraft((prev) => ({ ...prev, steps: [...prev.steps, newChainStep(promptId)] }));
+          }}
+        >
+          <option value="">{isPl ? "Wybierz prompt..." : "Choose a prompt..."}</option>
+          {promptOptions.map((prompt) => (
+            <option key={prompt.id} value={prompt.id}>{prompt.title}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="row-gap">
+        <button type="submit">{isPl ? "Zapisz łańcuch" : "Save chain"}</button>
+        <button type="button" className="ghost" onClick={() => navigate("chains")}>{isPl ? "Anuluj" : "Cancel"}</button>
+      </div>
+    </form>
+  );
+}
+
+// Walks a chain in the app: each step is copied to the clipboard, filling its variables first.
+function ChainRunner({
+  lib,
+  chain,
+  navigate,
+  language
+}: {
+  lib: LibraryApi;
+  chain: PromptChain;
+  navigate: (page: AppPage, params?: Record<string, string>) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const [index, setIndex] = useState(0);
+  const [filling, setFilling] = useState(false);
+  const steps = useMemo(() => resolveChainSteps(lib.db, chain), [lib.db, chain]);
+  const current = steps[Math.min(index, steps.length - 1)];
+  const currentPrompt = current?.prompt ? expandPrompt(current.prompt, lib.db.snippets) : null;
+
+  const goTo = (next: number) => {
+    setIndex(Math.max(0, Math.min(steps.length - 1, next)));
+    setFilling(false);
+  };
+
+  return (
+    <div className="surface">
+      <div className="section-title-row">
+        <h2>⛓ {chain.title}</h2>
+        <div className="row-gap">
+          <button className="ghost" onClick={() => navigate("chains", { edit: chain.id })}>{isPl ? "Edytuj" : "Edit"}</button>
+          <button className="ghost" onClick={() => navigate("chains")}>{isPl ? "Zamknij" : "Close"}</button>
+        </div>
+      </div>
+      {chain.description ? <p className="site-hint">{chain.description}</p> : null}
+
+      <ol className="chain-run-steps">
+        {steps.map((entry, i) => (
+          <li key={entry.step.id} className={i === index ? "active" : entry.prompt ? "" : "missing"}>
+            <button type="button" className="link-button" onClick={() => goTo(i)}>
+              {entry.prompt?.title ?? (isPl ? "(prompt w koszu)" : "(prompt in trash)")}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {current ? (
+        <section className="chain-run-current">
+          <h3>
+            {isPl ? "Krok" : "Step"} {index + 1}/{steps.length}
+            {currentPrompt ? `: ${currentPrompt.title}` : ""}
+          </h3>
+          {current.step.note ? <p className="chain-note">{current.step.note}</p> : null}
+          {!currentPrompt ? (
+            <p className="site-hint">
+              {isPl
+                ? "Ten prompt jest w koszu. Przywróć go albo pomiń krok."
+                : "This prompt is in the trash. Restore it or skip the step."}
+            </p>
+          ) : filling ? (
+            <VariableFillForm
+              prompt={currentPrompt}
+              remembered={lib.variableValues}
+              submitLabel={isPl ? "Kopiuj" : "Copy"}
+              onSubmit={(values) => {
+                void lib.copyPrompt(currentPrompt.id, values);
+                goTo(index + 1);
+              }}
+              onCancel={() => setFilling(false)}
+              language={language}
+            />
+          ) : (
+            <pre>{currentPrompt.content}</pre>
+          )}
+          <div className="row-gap">
+            <button className="ghost" disabled={index === 0} onClick={() => goTo(index - 1)}>
+              {isPl ? "Poprzedni" : "Previous"}
+            </button>
+            {currentPrompt && !filling ? (
+              <button
+                onClick={() => {
+                  if (currentPrompt.variables.length > 0) {
+                    setFilling(true);
+                    return;
+                  }
+                  void lib.copyPrompt(currentPrompt.id);
+                  goTo(index + 1);
+                }}
+              >
+                {isPl ? "Kopiuj i dalej" : "Copy and continue"}
+              </button>
+            ) : null}
+            <button className="ghost" disabled={index >= steps.length - 1} onClick={() => goTo(index + 1)}>
+              {isPl ? "Następny" : "Next"}
+            </button>
+          </div>
+        </section>
+      ) : (
+        <p>{isPl ? "Łańcuch nie ma kroków." : "This chain has no steps."}</p>
+      )}
+    </div>
+  );
+}
+
+function SnippetsPage({
+  lib,
+  params,
+  navigate,
+  language
+}: {
+  lib: LibraryApi;
+  params: URLSearchParams;
+  navigate: (page: AppPage, params?: Record<string, string>) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const editId = params.get("edit");
+  const snippets = useMemo(
+    () => [...lib.db.snippets].sort((a, b) => a.name.localeCompare(b.name, isPl ? "pl" : "en", { sensitivity: "base" })),
+    [lib.db.snippets, isPl]
+  );
+
+  if (editId) {
+    const editing = editId === "new" ? null : lib.db.snippets.find((snippet) => snippet.id === editId) ?? null;
+    return <SnippetEditor key={editId} lib={lib} snippet={editing} navigate={navigate} language={language} />;
+  }
+
+  return (
+    <div className="surface">
+      <div className="section-title-row">
+        <h2>{isPl ? "Fragmenty" : "Snippets"}</h2>
+        <button onClick={() => navigate("snippets", { edit: "new" })}>{isPl ? "Nowy fragment" : "New snippet"}</button>
+      </div>
+      <p className="site-hint">
+        {isPl
+          ? "Wstaw fragment do promptu jako {{> nazwa}}. Przy kopiowaniu i wstawianiu zostaje zastąpiony aktualną treścią fragmentu."
+          : "Include a snippet in a prompt as {{> name}}. Copying and inserting replace it with the snippet's current text."}
+      </p>
+
+      {snippets.length === 0 ? <p>{isPl ? "Brak fragmentów." : "No snippets yet."}</p> : null}
+
+      <div className="chain-list">
+        {snippets.map((snippet) => {
+          const users = snippetUsers(lib.db, snippet.name);
+          return (
+            <article key={snippet.id} className="chain-card">
+              <div>
+                <strong><code>{includeToken(snippet.name)}</code></strong>
+                <small>
+                  {isPl ? "Używają" : "Used by"}: {users.prompts.length} {isPl ? "promptów" : "prompts"}
+                  {users.snippets.length > 0 ? `, ${users.snippets.length} ${isPl ? "fragmentów" : "snippets"}` : ""}
+                </small>
+                {snippet.description ? <p>{snippet.description}</p> : null}
+              </div>
+              <button className="ghost" onClick={() => navigate("snippets", { edit: snippet.id })}>
+                {isPl ? "Edytuj" : "Edit"}
+              </button>
+            </article>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function SnippetEditor({
+  lib,
+  snippet,
+  navigate,
+  language
+}: {
+  lib: LibraryApi;
+  snippet: Snippet | null;
+  navigate: (page: AppPage, params?: Record<string, string>) => void;
+  language: Language;
+}) {
+  const isPl = language === "pl";
+  const [draft, setDraft] = useState<SnippetDraft>(() =>
+    snippet
+      ? { id: snippet.id, name: snippet.name, description: snippet.description, content: snippet.content }
+      : { name: "", description: "", content: "" }
+  );
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const users = useMemo(() => (snippet ? snippetUsers(lib.db, snippet.name) : null), [lib.db, snippet]);
+  // The preview uses the draft in place of the stored snippet, so nested includes show the unsaved text.
+  const previewSnippets = useMemo(
+    () => [
+      ...lib.db.snippets.filter((s) => s.id !== draft.id),
+      { id: draft.id ?? "", ...draft, createdAt: "", updatedAt: "" }
+    ],
+    [draft, lib.db.snippets]
+  );
+  const useCount = users ? users.prompts.length : 0;
+  const renamed = !!snippet && draft.name.trim() !== snippet.name && useCount > 0;
+
+  return (
+    <form
+      className="surface form-grid"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (lib.saveSnippet(draft)) navigate("snippets");
+      }}
+    >
+      <h2>{snippet ? (isPl ? "Edytuj fragment" : "Edit snippet") : isPl ? "Nowy fragment" : "New snippet"}</h2>
+      <label>
+        {isPl ? "Nazwa (klucz do {{> nazwa}})" : "Name (key for {{> name}})"}
+        <input
+          value={draft.name}
+          placeholder="json-output"
+          onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+        />
+      </label>
+      {renamed ? (
+        <p className="site-hint">
+          {isPl
+            ? "Zmiana nazwy poprawi dołączenia we wszystkich promptach i fragmentach, które go używają."
+            : "Renaming updates the includes in every prompt and snippet that uses it."}
+        </p>
+      ) : null}
+      <label>
+        {isPl ? "Opis" : "Description"}
+        <input value={draft.description} onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))} />
+      </label>
+      <label>
+        {isPl ? "Treść" : "Content"}
+        <textarea
+          rows={10}
+          value={draft.content}
+          onChange={(e) => setDraft((prev) => ({ ...prev, content: e.target.value }))}
+        />
+      </label>
+      <ExpandedPreview content={draft.content} snippets={previewSnippets} language={language} />
+
+      {users ? (
+        <div className="snippet-users">
+          <strong>{isPl ? "Używany przez" : "Used by"}</strong>
+          {users.prompts.length === 0 && users.snippets.length === 0 ? (
+            <p className="site-hint">{isPl ? "Nikt go jeszcze nie używa." : "Not used yet."}</p>
+          ) : null}
+          <div className="tag-cloud">
+            {users.prompts.map((prompt) => (
+              <button
+                key={prompt.id}
+                type="button"
+                className="tag-pill"
+                onClick={() => navigate("prompts", { prompt: prompt.id })}
+              >
+                {prompt.title}
+              </button>
+            ))}
+            {users.snippets.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                className="chip chip-snippet"
+                onClick={() => navigate("snippets", { edit: user.id })}
+              >
+                {includeToken(user.name)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div className="row-gap">
+        <button type="submit">{isPl ? "Zapisz fragment" : "Save snippet"}</button>
+        <button type="button" className="ghost" onClick={() => navigate("snippets")}>{isPl ? "Anuluj" : "Cancel"}</button>
+        {snippet ? (
+          confirmDelete ? (
+            <>
+              <button
+                type="button"
+                className="danger"
+                onClick={() => {
+                  lib.deleteSnippet(snippet.id);
+                  navigate("snippets");
+                }}
+              >
+                {useCount > 0
+                  ? txt(language, `Usuń mimo ${useCount} użyć`, `Delete despite ${useCount} uses`)
+                  : txt(language, "Potwierdź usunięcie", "Confirm delete")}
+              </button>
+              <button type="button" className="ghost" onClick={() => setConfirmDelete(false)}>
+                {isPl ? "Anuluj" : "Cancel"}
+              </button>
+            </>
+          ) : (
+            <button type="button" className="danger" onClick={() => setConfirmDelete(true)}>
+              {isPl ? "Usuń" : "Delete"}
+            </button>
+          )
+        ) : null}
+      </div>
+    </form>
+  );
+}
+
+function TrashPage({ lib, language }: { lib: LibraryApi; language: Language }) {
+  const isPl = language === "pl";
+  const [retentionInput, setRetentionInput] = useState(String(lib.trashRetentionDays));
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const categoryMap = useMemo(() => categoryPathLabels(lib.db.categories), [lib.db.categories]);
+  const entries = useMemo(
+    () => [...lib.db.trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    [lib.db.trash]
+  );
+
+  useEffect(() => {
+    setRetentionInput(String(lib.trashRetentionDays));
+  }, [lib.trashRetentionDays]);
+
+  return (
+    <div className="surface">
+      <div className="section-title-row">
+        <h2>{isPl ? "Usunięte prompty" : "Deleted prompts"}</h2>
+        <div className="row-gap">
+          <button className="ghost" disabled={!lib.canUndo} onClick={lib.undo}>
+            {isPl ? "Cofnij (Ctrl/Cmd+Z)" : "Undo (Ctrl/Cmd+Z)"}
+          </button>
+          <button className="ghost" disabled={!lib.canRedo} onClick={lib.redo}>
+            {isPl ? "Ponów (Ctrl/Cmd+Shift+Z)" : "Redo (Ctrl/Cmd+Shift+Z)"}
+          </button>
+          {confirmEmpty ? (
+            <>
+              <button
+                className="danger"
+                onClick={() => {
+                  lib.purgeFromTrash(entries.map((entry) => entry.prompt.id));
+                  setConfirmEmpty(false);
+                }}
+              >
+                {isPl ? "Potwierdź opróżnienie" : "Confirm empty trash"}
+              </button>
+              <button className="ghost" onClick={() => setConfirmEmpty(false)}>{isPl ? "Anuluj" : "Cancel"}</button>
+            </>
+          ) : (
+            <button className="danger" disabled={entries.length === 0} onClick={() => setConfirmEmpty(true)}>
+              {isPl ? "Opróżnij kosz" : "Empty trash"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <form
+        className="row-gap"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void lib.updateTrashRetention(Number(retentionInput));
+        }}
+      >
+        <label>
+          {isPl ? "Przechowuj usunięte prompty (dni)" : "Keep deleted prompts for (days)"}
+          <input
+            className="retention-input"
+            type="number"
+            min={MIN_TRASH_RETENTION_DAYS}
+            max={MAX_TRASH_RETENTION_DAYS}
+            value={retentionInput}
+            onChange={(e) => setRetentionInput(e.target.value)}
+          />
+        </label>
+        <button type="submit" className="ghost">{isPl ? "Zapisz" : "Save"}</button>
+      </form>
+
+      {entries.length === 0 ? <p>{isPl ? "Kosz jest pusty." : "Trash is empty."}</p> : null}
+
+      <div className="trash-list">
+        {entries.map(({ prompt, deletedAt }) => (
+          <article key={prompt.id} className="trash-item">
+            <div>
+              <strong>{prompt.title}</strong>
+              <small>
+                {prompt.categoryId === UNCATEGORIZED_ID
+                  ? (isPl ? "Bez kategorii" : "Uncategorized")
+                  : categoryMap.get(prompt.categoryId) ?? ""}
+                {" · "}
+                {isPl ? "Usunięto" : "Deleted"}: {new Date(deletedAt).toLocaleString()}
+                {" · "}
+                {isPl ? "Zniknie" : "Expires"}: {trashExpiresAt(deletedAt, lib.trashRetentionDays).toLocaleDateString()}
+              </small>
+              <p>{prompt.content.slice(0, 160)}{prompt.content.length > 160 ? "..." : ""}</p>
+            </div>
+            <div className="row-gap">
+              <button onClick={() => lib.restoreFromTrash([prompt.id])}>{isPl ? "Przywróć" : "Restore"}</button>
+              <button className="danger" onClick={() => lib.purgeFromTrash([prompt.id])}>
+                {isPl ? "Usuń trwale" : "Delete forever"}
+              </button>
+            </div>
           </article>
         ))}
       </div>
@@ -1239,104 +3453,408 @@ function CategoriesPage({ lib, language }: { lib: LibraryApi; language: Language
   );
 }
 
-function DataPage({ lib, language }: { lib: LibraryApi; language: Language }) {
+function importStatusLabel(status: ImportStatus, language: Language) {
+  if (status === "duplicate") return txt(language, "duplikat", "duplicate");
+  if (status === "identical") return txt(language, "bez zmian", "identical");
+  if (status === "update") return txt(language, "aktualizacja", "update");
+  if (status === "conflict") return txt(language, "konflikt", "conflict");
+  return txt(language, "nowy", "new");
+}
+
+function importResolutionLabel(resolution: ImportResolution, language: Language) {
+  if (resolution === "theirs") return txt(language, "Weź z pliku", "Take theirs");
+  if (resolution === "both") return txt(language, "Zachowaj oba", "Keep both");
+  return txt(language, "Zachowaj moje", "Keep mine");
+}
+
+function csvFieldLabel(field: CsvField, language: Language) {
+  if (field === "title") return txt(language, "Tytuł", "Title");
+  if (field === "content") return txt(language, "Treść", "Content");
+  if (field === "tags") return txt(language, "Tagi", "Tags");
+  if (field === "category") return txt(language, "Kategoria", "Category");
+  return txt(language, "Ulubiony", "Favorite");
+}
+
+function DataPage({
+  lib,
+  exportScope,
+  clearExportScope,
+  language
+}: {
+  lib: LibraryApi;
+  exportScope: string[] | null;
+  clearExportScope: () => void;
+  language: Language;
+}) {
   const isPl = language === "pl";
   const fileRef = useRef<HTMLInputElement>(null);
   const [importPreview, setImportPreview] = useState<DbFile | null>(null);
   const [selectedImportIds, setSelectedImportIds] = useState<string[]>([]);
+  const [importResolutions, setImportResolutions] = useState<Record<string, ImportResolution>>({});
   const [importFileName, setImportFileName] = useState("");
   const [importError, setImportError] = useState<string | null>(null);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  const [encryptedImport, setEncryptedImport] = useState<{ fileName: string; envelope: EncryptedEnvelope } | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [csvImport, setCsvImport] = useState<{ fileName: string; table: CsvTable; mapping: CsvMapping } | null>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  // The scope is a snapshot of the prompts list filter; prompts deleted since then simply drop out.
+  const scopedIds = useMemo(() => (exportScope ? new Set(exportScope) : null), [exportScope]);
+  const exportPrompts = useMemo(
+    () => (scopedIds ? lib.db.prompts.filter((prompt) => scopedIds.has(prompt.id)) : lib.db.prompts),
+    [lib.db.prompts, scopedIds]
+  );
+  const uncategorizedLabel = isPl ? "Bez kategorii" : "Uncategorized";
+
+  function exportFileName(extension: string) {
+    return `prompts-${scopedIds ? "filtered" : "export"}-${new Date().toISOString().slice(0, 10)}${extension}`;
+  }
+
+  function downloadMarkdownZip() {
+    downloadBlob(
+      new Blob([exportMarkdownZip(exportPrompts, lib.db.categories, uncategorizedLabel)], { type: "application/zip" }),
+      exportFileName(".zip")
+    );
+  }
+
+  function downloadCombinedMarkdown() {
+    const markdown = exportCombinedMarkdown(exportPrompts, lib.db.categories, {
+      heading: isPl ? "Prompty" : "Prompts",
+      uncategorized: uncategorizedLabel,
+      tags: isPl ? "Tagi" : "Tags"
+    });
+    downloadBlob(new Blob([markdown], { type: "text/markdown" }), exportFileName(".md"));
+  }
 
-  function downloadExport() {
-    const blob = new Blob([lib.exportJson()], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `prompts-export-${new Date().toISOString().slice(0, 10)}.json`;
-    link.click();
-    URL.revokeObjectURL(url);
+  function downloadCsv() {
+    downloadBlob(
+      new Blob([exportCsv(exportPrompts, lib.db.categories, uncategorizedLabel)], { type: "text/csv" }),
+      exportFileName(".csv")
+    );
+  }
+
+  async function downloadExport() {
+    let json = scopedIds ? JSON.stringify(scopeDb(lib.db, scopedIds), null, 2) : lib.exportJson();
+    let suffix = "";
+    if (encryptExport) {
+      if (exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setImportError(
+          isPl
+            ? `Hasło musi mieć co najmniej ${MIN_PASSPHRASE_LENGTH} znaków`
+            : `Passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters`
+        );
+        return;
+      }
+      json = await encryptText(json, exportPassphrase);
+      suffix = ".encrypted";
+    }
+    setImportError(null);
+    downloadBlob(new Blob([json], { type: "application/json" }), exportFileName(`${suffix}.json`));
+  }
+
+  // Conversation exports yield many candidates, so nothing is preselected for them.
+  // Prompts whose id already exists get a resolution instead of a checkbox; duplicates start unticked.
+  function showParsedPreview(normalized: DbFile, fileName: string, preselectNew = true) {
+    const analysis = analyzeImport(lib.db, normalized);
+    const defaultSelection: string[] = [];
+    const resolutions: Record<string, ImportResolution> = {};
+    for (const [id, { status }] of analysis) {
+      if (status === "new" && preselectNew) defaultSelection.push(id);
+      if (status === "identical" || status === "update" || status === "conflict") {
+        resolutions[id] = DEFAULT_IMPORT_RESOLUTION[status];
+      }
+    }
+
+    setImportFileName(fileName);
+    setImportPreview(normalized);
+    setSelectedImportIds(defaultSelection);
+    setImportResolutions(resolutions);
+    if (normalized.prompts.length === 0) {
+      setImportError(isPl ? "Nie znaleziono promptów w pliku" : "No prompts found in the file");
+    }
+  }
+
+  function showImportPreview(raw: string, fileName: string) {
+    try {
+      showParsedPreview(parseDbJson(raw), fileName);
+    } catch (e) {
+      setImportError(
+        e instanceof DbError && e.code !== "corrupt"
+          ? dbErrorMessage(e.code, language)
+          : (isPl ? "Niepoprawny plik JSON" : "Invalid JSON file")
+      );
+      setImportPreview(null);
+      setSelectedImportIds([]);
+      setImportFileName("");
+    }
   }
 
-  async function onFileImport(event: ChangeEvent<HTMLInputElement>) {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  async function importFiles(files: File[]) {
     setImportError(null);
+    setEncryptedImport(null);
+    setCsvImport(null);
+    setImportPreview(null);
+
+    const markdownFiles = files.filter((file) => /\.(md|markdown)$/i.test(file.name));
+    if (markdownFiles.length > 0 && (markdownFiles.length === files.length || files.length > 1)) {
+      const parsed = await Promise.all(
+        markdownFiles.map(async (file) => {
+          // For folder picks the directories below the picked one become the category path,
+          // e.g. `prompts/Coding/Python/a.md` -> Coding/Python.
+          const parts = (file.webkitRelativePath || file.name).split("/");
+          return { name: file.name, text: await file.text(), folder: parts.slice(1, -1).join("/") || undefined };
+        })
+      );
+      const label = markdownFiles.length === 1 ? markdownFiles[0].name : `${markdownFiles.length} Markdown`;
+      showParsedPreview(importMarkdownFiles(parsed), label);
+      return;
+    }
+    if (files.length !== 1) {
+      setImportError(isPl ? "Wybierz jeden plik albo pliki Markdown" : "Choose a single file or Markdown files");
+      return;
+    }
+
+    const [file] = files;
+    const raw = await file.text();
+    if (/\.csv$/i.test(file.name)) {
+      const table = parseCsv(raw);
+      if (table.headers.length === 0) {
+        setImportError(isPl ? "Plik CSV jest pusty" : "The CSV file is empty");
+        return;
+      }
+      setCsvImport({ fileName: file.name, table, mapping: guessCsvMapping(table.headers) });
+      return;
+    }
 
+    let parsed: unknown = null;
     try {
-      const raw = await file.text();
-      const parsed = JSON.parse(raw) as DbFile;
-      const normalized = normalizeDb(parsed);
-      const existingIds = new Set(lib.db.prompts.map((prompt) => prompt.id));
-      const defaultSelection = normalized.prompts
-        .filter((prompt) => !existingIds.has(prompt.id))
-        .map((prompt) => prompt.id);
-
-      setImportFileName(file.name);
-      setImportPreview(normalized);
-      setSelectedImportIds(defaultSelection);
+      parsed = JSON.parse(raw);
     } catch {
-      setImportError(isPl ? "Niepoprawny plik JSON" : "Invalid JSON file");
-      setImportPreview(null);
-      setSelectedImportIds([]);
-      setImportFileName("");
+      // parseDbJson below reports the error.
+    }
+
+    if (isEncryptedEnvelope(parsed)) {
+      setImportPassphrase("");
+      setEncryptedImport({ fileName: file.name, envelope: parsed });
+    } else if (isChatGptExport(parsed)) {
+      showParsedPreview(importChatGptExport(parsed), file.name, false);
+    } else if (isClaudeExport(parsed)) {
+      showParsedPreview(importClaudeExport(parsed), file.name, false);
+    } else {
+      showImportPreview(raw, file.name);
     }
+  }
 
+  async function onFileImport(event: ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) await importFiles(files);
     event.target.value = "";
   }
 
+  function previewCsvImport() {
+    if (!csvImport) return;
+    if (csvImport.mapping.content < 0) {
+      setImportError(isPl ? "Wskaż kolumnę z treścią promptu" : "Choose the column with the prompt content");
+      return;
+    }
+    setImportError(null);
+    showParsedPreview(importCsv(csvImport.table, csvImport.mapping), csvImport.fileName);
+    setCsvImport(null);
+  }
+
+  async function decryptImport(event: FormEvent) {
+    event.preventDefault();
+    if (!encryptedImport) return;
+
+    try {
+      const raw = await decryptText(encryptedImport.envelope, importPassphrase);
+      setEncryptedImport(null);
+      setImportPassphrase("");
+      setImportError(null);
+      showImportPreview(raw, encryptedImport.fileName);
+    } catch (e) {
+      setImportError(
+        e instanceof CryptoError && e.code === "wrongPassphrase"
+          ? (isPl ? "Błędne hasło" : "Wrong passphrase")
+          : (isPl ? "Nie można odszyfrować pliku" : "Cannot decrypt the file")
+      );
+    }
+  }
+
   function applySelectedImport() {
     if (!importPreview) return;
-    const selectedPrompts = importPreview.prompts.filter((prompt) =>
-      selectedImportIds.includes(prompt.id)
-    );
+    const selectedPrompts = importPreview.prompts.filter((prompt) => {
+      const resolution = importResolutions[prompt.id];
+      return resolution ? resolution !== "mine" : selectedImportIds.includes(prompt.id);
+    });
     if (selectedPrompts.length === 0) {
       setImportError(isPl ? "Wybierz co najmniej jeden prompt" : "Select at least one prompt");
       return;
     }
 
+    // Ancestors come along so subcategories keep their place in the tree.
     const usedCategoryIds = new Set<string>([UNCATEGORIZED_ID]);
     for (const prompt of selectedPrompts) {
-      usedCategoryIds.add(prompt.categoryId);
+      for (const category of categoryPath(importPreview.categories, prompt.categoryId)) usedCategoryIds.add(category.id);
     }
     const selectedCategories = importPreview.categories.filter((category) =>
       usedCategoryIds.has(category.id)
     );
 
     const payload: DbFile = {
-      version: 1,
+      version: DB_VERSION,
       categories: selectedCategories,
-      prompts: selectedPrompts
+      prompts: selectedPrompts,
+      trash: [],
+      // mergeImported keeps the chains whose steps are all selected or already in the library.
+      chains: importPreview.chains,
+      snippets: snippetsUsedBy(selectedPrompts, importPreview.snippets)
     };
 
-    lib.importJson(JSON.stringify(payload));
+    lib.importDb(payload, importResolutions);
     setImportPreview(null);
     setSelectedImportIds([]);
+    setImportResolutions({});
     setImportFileName("");
     setImportError(null);
   }
 
-  const existingIds = useMemo(
-    () => new Set(lib.db.prompts.map((prompt) => prompt.id)),
-    [lib.db.prompts]
+  const importAnalysis = useMemo(
+    () => (importPreview ? analyzeImport(lib.db, importPreview) : new Map<string, ImportAnalysis>()),
+    [importPreview, lib.db]
   );
-
-  const selectedCount = selectedImportIds.length;
+  // Prompts with an id match are handled by their resolution, the rest by the checkbox.
+  const resolvableIds = importPreview?.prompts.filter((prompt) => importResolutions[prompt.id]).map((p) => p.id) ?? [];
+  const pendingConflictCount = resolvableIds.filter(
+    (id) => importAnalysis.get(id)?.status !== "identical"
+  ).length;
+  const checkableIds = importPreview?.prompts.filter((prompt) => !importResolutions[prompt.id]).map((p) => p.id) ?? [];
+
+  const selectedCount =
+    selectedImportIds.length + resolvableIds.filter((id) => importResolutions[id] !== "mine").length;
   const previewCount = importPreview?.prompts.length ?? 0;
 
+  function resolveAll(resolution: ImportResolution) {
+    setImportResolutions((prev) => {
+      const next = { ...prev };
+      for (const id of resolvableIds) {
+        if (importAnalysis.get(id)?.status !== "identical") next[id] = resolution;
+      }
+      return next;
+    });
+  }
+
   return (
     <div className="data-layout">
       <section className="surface">
         <h2>{isPl ? "Import / Eksport" : "Import / Export"}</h2>
         <p>
           {isPl
-            ? "Export zapisuje pełny JSON biblioteki. Import scala dane: aktualizuje prompty o tym samym `id`, tworzy brakujące i dopasowuje kategorie po `id` i nazwie."
-            : "Export saves the full library JSON. Import merges data: updates prompts with the same `id`, creates missing ones, and matches categories by `id` and name."}
+            ? "Export zapisuje pełny JSON biblioteki. Import scala dane: prompty o istniejącym `id` porównuje z lokalną wersją (zachowaj moje / weź z pliku / zachowaj oba), oznacza duplikaty treści i dopasowuje kategorie po `id` i nazwie."
+            : "Export saves the full library JSON. Import merges data: prompts with an existing `id` are compared with the local version (keep mine / take theirs / keep both), content duplicates are flagged, and categories are matched by `id` and name."}
         </p>
+        {exportScope ? (
+          <div className="export-scope">
+            <span>
+              {isPl
+                ? `Eksport obejmuje ${exportPrompts.length} z ${lib.db.prompts.length} promptów (aktualny filtr listy).`
+                : `Export covers ${exportPrompts.length} of ${lib.db.prompts.length} prompts (current list filter).`}
+            </span>
+            <button className="ghost" onClick={clearExportScope}>{isPl ? "Eksportuj całą bibliotekę" : "Export whole library"}</button>
+          </div>
+        ) : null}
         <div className="row-gap">
-          <button onClick={downloadExport}>{isPl ? "Eksport JSON" : "Export JSON"}</button>
-          <button className="ghost" onClick={() => fileRef.current?.click()}>{isPl ? "Import JSON" : "Import JSON"}</button>
-          <input ref={fileRef} type="file" accept="application/json,.json" onChange={onFileImport} hidden />
+          <button onClick={() => void downloadExport()}>{isPl ? "Eksport JSON" : "Export JSON"}</button>
+          <button className="ghost" onClick={downloadMarkdownZip}>Markdown (zip)</button>
+          <button className="ghost" onClick={downloadCombinedMarkdown}>{isPl ? "Jeden plik Markdown" : "Single Markdown file"}</button>
+          <button className="ghost" onClick={downloadCsv}>CSV</button>
         </div>
+        <div className="row-gap">
+          <button className="ghost" onClick={() => fileRef.current?.click()}>{isPl ? "Importuj pliki" : "Import files"}</button>
+          <button className="ghost" onClick={() => folderRef.current?.click()}>
+            {isPl ? "Importuj folder Markdown" : "Import Markdown folder"}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            multiple
+            accept="application/json,.json,.md,.markdown,.csv,text/csv,text/markdown"
+            onChange={onFileImport}
+            hidden
+          />
+          <input ref={folderRef} type="file" {...{ webkitdirectory: "" }} onChange={onFileImport} hidden />
+        </div>
+        <p className="site-hint">
+          {isPl
+            ? "Obsługiwane: JSON Promptera, Markdown z front-matter, CSV, conversations.json z ChatGPT i eksport danych Claude."
+            : "Supported: Prompter JSON, Markdown with front-matter, CSV, ChatGPT conversations.json and Claude data export."}
+        </p>
+        <label className="checkbox-row">
+          <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+          {isPl ? "Szyfruj eksport hasłem" : "Encrypt export with a passphrase"}
+        </label>
+        {encryptExport ? (
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder={isPl ? "Hasło eksportu" : "Export passphrase"}
+          />
+        ) : null}
+        {encryptedImport ? (
+          <form className="passphrase-form" onSubmit={(event) => void decryptImport(event)}>
+            <p>
+              {isPl
+                ? `Plik ${encryptedImport.fileName} jest zaszyfrowany. Podaj hasło, aby zobaczyć podgląd importu.`
+                : `${encryptedImport.fileName} is encrypted. Enter the passphrase to see the import preview.`}
+            </p>
+            <div className="row-gap">
+              <input
+                type="password"
+                autoFocus
+                value={importPassphrase}
+                onChange={(e) => setImportPassphrase(e.target.value)}
+                placeholder={isPl ? "Hasło" : "Passphrase"}
+              />
+              <button type="submit">{isPl ? "Odszyfruj" : "Decrypt"}</button>
+              <button type="button" className="ghost" onClick={() => setEncryptedImport(null)}>
+                {isPl ? "Anuluj" : "Cancel"}
+              </button>
+            </div>
+          </form>
+        ) : null}
+        {csvImport ? (
+          <div className="csv-mapping">
+            <p>
+              {isPl
+                ? `${csvImport.fileName}: ${csvImport.table.rows.length} wierszy. Przypisz kolumny:`
+                : `${csvImport.fileName}: ${csvImport.table.rows.length} rows. Map the columns:`}
+            </p>
+            {CSV_FIELDS.map((field) => (
+              <label key={field}>
+                {csvFieldLabel(field, language)}
+                <select
+                  value={csvImport.mapping[field]}
+                  onChange={(e) =>
+                    setCsvImport({ ...csvImport, mapping: { ...csvImport.mapping, [field]: Number(e.target.value) } })
+                  }
+                >
+                  <option value={-1}>—</option>
+                  {csvImport.table.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `#${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <div className="row-gap">
+              <button onClick={previewCsvImport}>{isPl ? "Pokaż podgląd" : "Show preview"}</button>
+              <button className="ghost" onClick={() => setCsvImport(null)}>{isPl ? "Anuluj" : "Cancel"}</button>
+            </div>
+          </div>
+        ) : null}
         {importError ? <p className="import-error">{importError}</p> : null}
       </section>
 
@@ -1347,20 +3865,13 @@ function DataPage({ lib, language }: { lib: LibraryApi; language: Language }) {
             <small>{selectedCount} / {previewCount} {isPl ? "zaznaczone" : "selected"}</small>
           </div>
           <div className="row-gap">
-            <button
-              className="ghost"
-              onClick={() => setSelectedImportIds(importPreview.prompts.map((prompt) => prompt.id))}
-            >
+            <button className="ghost" onClick={() => setSelectedImportIds(checkableIds)}>
               {isPl ? "Zaznacz wszystko" : "Select all"}
             </button>
             <button
               className="ghost"
               onClick={() =>
-                setSelectedImportIds(
-                  importPreview.prompts
-                    .filter((prompt) => !existingIds.has(prompt.id))
-                    .map((prompt) => prompt.id)
-                )
+                setSelectedImportIds(checkableIds.filter((id) => importAnalysis.get(id)?.status === "new"))
               }
             >
               {isPl ? "Tylko nowe" : "Only new"}
@@ -1370,10 +3881,67 @@ function DataPage({ lib, language }: { lib: LibraryApi; language: Language }) {
             </button>
             <button onClick={applySelectedImport}>{isPl ? "Importuj zaznaczone" : "Import selected"}</button>
           </div>
+          {pendingConflictCount > 0 ? (
+            <div className="row-gap import-bulk">
+              <span>
+                {isPl
+                  ? `${pendingConflictCount} promptów istnieje już lokalnie w innej wersji. Dla wszystkich:`
+                  : `${pendingConflictCount} prompts already exist locally in another version. For all:`}
+              </span>
+              <button className="ghost" onClick={() => resolveAll("mine")}>{importResolutionLabel("mine", language)}</button>
+              <button className="ghost" onClick={() => resolveAll("theirs")}>{importResolutionLabel("theirs", language)}</button>
+              <button className="ghost" onClick={() => resolveAll("both")}>{importResolutionLabel("both", language)}</button>
+            </div>
+          ) : null}
 
           <div className="import-list">
             {importPreview.prompts.map((prompt) => {
-              const isUpdate = existingIds.has(prompt.id);
+              const analysis = importAnalysis.get(prompt.id);
+              const status = analysis?.status ?? "new";
+              const resolution = importResolutions[prompt.id];
+              const summary = (
+                <>
+                  <div className="row-between">
+                    <strong>{prompt.title}</strong>
+                    <span className={`import-badge ${status}`}>{importStatusLabel(status, language)}</span>
+                  </div>
+                  <p>{prompt.content.slice(0, 120)}{prompt.content.length > 120 ? "..." : ""}</p>
+                </>
+              );
+
+              if (resolution && analysis?.match) {
+                const mine = analysis.match;
+                return (
+                  <div key={prompt.id} className={resolution !== "mine" ? "import-item selected" : "import-item"}>
+                    <div>
+                      {summary}
+                      {status !== "identical" ? (
+                        <>
+                          <p className="site-hint">
+                            {isPl ? "Lokalnie" : "Local"}: {new Date(mine.updatedAt).toLocaleString()} ·{" "}
+                            {isPl ? "W pliku" : "In file"}: {new Date(prompt.updatedAt).toLocaleString()}
+                            {mine.content !== prompt.content
+                              ? ` · ${isPl ? "lokalna treść" : "local content"}: ${mine.content.slice(0, 80)}${mine.content.length > 80 ? "..." : ""}`
+                              : ""}
+                          </p>
+                          <div className="row-gap import-resolution">
+                            {(["mine", "theirs", "both"] as ImportResolution[]).map((option) => (
+                              <button
+                                key={option}
+                                className={resolution === option ? "ghost active-filter" : "ghost"}
+                                onClick={() => setImportResolutions((prev) => ({ ...prev, [prompt.id]: option }))}
+                              >
+                                {importResolutionLabel(option, language)}
+                              </button>
+                            ))}
+                          </div>
+                        </>
+                      ) : null}
+                    </div>
+                  </div>
+                );
+              }
+
               const checked = selectedImportIds.includes(prompt.id);
               return (
                 <label key={prompt.id} className={checked ? "import-item selected" : "import-item"}>
@@ -1389,13 +3957,12 @@ function DataPage({ lib, language }: { lib: LibraryApi; language: Language }) {
                     }}
                   />
                   <div>
-                    <div className="row-between">
-                      <strong>{prompt.title}</strong>
-                      <span className={isUpdate ? "import-badge update" : "import-badge new"}>
-                        {isUpdate ? (isPl ? "aktualizacja" : "update") : (isPl ? "nowy" : "new")}
-                      </span>
-                    </div>
-                    <p>{prompt.content.slice(0, 120)}{prompt.content.length > 120 ? "..." : ""}</p>
+                    {summary}
+                    {status === "duplicate" && analysis?.match ? (
+                      <p className="site-hint">
+                        {isPl ? "Ta sama treść co" : "Same content as"}: {analysis.match.title}
+                      </p>
+                    ) : null}
                   </div>
                 </label>
               );
@@ -1404,6 +3971,9 @@ function DataPage({ lib, language }: { lib: LibraryApi; language: Language }) {
         </section>
       ) : null}
 
+      <BackupSettingsSection lib={lib} language={language} />
+      <SnapshotRestoreSection lib={lib} language={language} />
+
       <section className="surface">
         <h2>{isPl ? "Jak działa import" : "How import works"}</h2>
         <ul className="stats-list">
@@ -1429,12 +3999,345 @@ function DataPage({ lib, language }: { lib: LibraryApi; language: Language }) {
           <li>{isPl ? "Ctrl/Cmd + K: fokus na wyszukiwarce (na stronie promptów)" : "Ctrl/Cmd + K: focus search (on prompts page)"}</li>
           <li>{isPl ? "Ctrl/Cmd + N: nowy prompt (na stronie promptów)" : "Ctrl/Cmd + N: new prompt (on prompts page)"}</li>
           <li>{isPl ? "Ctrl/Cmd + Enter: kopiuj aktualny prompt (na stronie promptów)" : "Ctrl/Cmd + Enter: copy current prompt (on prompts page)"}</li>
+          <li>{isPl ? "Ctrl/Cmd + Z / Ctrl/Cmd + Shift + Z: cofnij / ponów zmianę w bibliotece" : "Ctrl/Cmd + Z / Ctrl/Cmd + Shift + Z: undo / redo a library change"}</li>
         </ul>
       </section>
     </div>
   );
 }
 
+function backupScheduleLabel(schedule: BackupSchedule, language: Language) {
+  if (schedule === "hourly") return txt(language, "Co godzinę", "Hourly");
+  if (schedule === "daily") return txt(language, "Codziennie", "Daily");
+  if (schedule === "onChange") return txt(language, "Po każdej zmianie", "After every change");
+  return txt(language, "Wyłączone", "Off");
+}
+
+function snapshotReasonLabel(reason: SnapshotReason, language: Language) {
+  if (reason === "scheduled") return txt(language, "planowa", "scheduled");
+  if (reason === "change") return txt(language, "po zmianie", "after change");
+  if (reason === "beforeRestore") return txt(language, "przed przywróceniem", "before restore");
+  return txt(language, "ręczna", "manual");
+}
+
+function BackupSettingsSection({ lib, language }: { lib: LibraryApi; language: Language }) {
+  const isPl = language === "pl";
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [hasPassphrase, setHasPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadBackupSettings().then(setSettings);
+    void loadBackupPassphrase().then((value) => setHasPassphrase(value.length > 0));
+  }, []);
+
+  async function storePassphrase(event: FormEvent) {
+    event.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setPassphraseError(
+        isPl
+          ? `Hasło musi mieć co najmniej ${MIN_PASSPHRASE_LENGTH} znaków`
+          : `Passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      setPassphraseError(isPl ? "Hasła się różnią" : "Passphrases do not match");
+      return;
+    }
+    await saveBackupPassphrase(passphrase);
+    setHasPassphrase(true);
+    setPassphrase("");
+    setPassphraseConfirm("");
+    setPassphraseError(null);
+  }
+
+  function update(patch: Partial<BackupSettings>) {
+    if (!settings) return;
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    void saveBackupSettings(next);
+  }
+
+  return (
+    <section className="surface">
+      <h2>{isPl ? "Automatyczny backup" : "Automatic backup"}</h2>
+      <p>
+        {isPl
+          ? "Kopie trafiają do Downloads/prompter_chrome jako pliki z datą oraz do wewnętrznego magazynu kopii."
+          : "Backups go to Downloads/prompter_chrome as timestamped files and to the internal snapshot store."}
+      </p>
+      {settings ? (
+        <div className="row-gap">
+          <label>
+            {isPl ? "Harmonogram" : "Schedule"}{" "}
+            <select value={settings.schedule} onChange={(e) => update({ schedule: e.target.value as BackupSchedule })}>
+              {BACKUP_SCHEDULES.map((schedule) => (
+                <option key={schedule} value={schedule}>{backupScheduleLabel(schedule, language)}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {isPl ? "Zachowaj ostatnie" : "Keep last"}{" "}
+            <input
+              type="number"
+              className="retention-input"
+              min={MIN_BACKUP_RETENTION}
+              max={MAX_BACKUP_RETENTION}
+              value={settings.retention}
+              onChange={(e) => update({ retention: Number(e.target.value) })}
+            />
+          </label>
+          <button className="ghost" onClick={() => void lib.backupNow()}>{isPl ? "Backup teraz" : "Back up now"}</button>
+        </div>
+      ) : null}
+      {settings ? (
+        <>
+          <label className="checkbox-row">
+            <input type="checkbox" checked={settings.encrypt} onChange={(e) => update({ encrypt: e.target.checked })} />
+            {isPl ? "Szyfruj pliki backupu hasłem" : "Encrypt backup files with a passphrase"}
+          </label>
+          {settings.encrypt ? (
+            <form className="passphrase-form" onSubmit={(event) => void storePassphrase(event)}>
+              <p>
+                {hasPassphrase
+                  ? (isPl ? "Hasło jest ustawione. Możesz je zmienić:" : "A passphrase is set. You can change it:")
+                  : (isPl
+                    ? "Podaj hasło - do tego czasu pliki backupu nie są zapisywane."
+                    : "Enter a passphrase - backup files are not written until then.")}
+              </p>
+              <p className="site-hint">
+                {isPl
+                  ? "Hasło jest trzymane tylko w pamięci przeglądarki i znika po jej zamknięciu, więc nie leży na dysku obok biblioteki. Po ponownym uruchomieniu przeglądarki podaj je jeszcze raz, inaczej zaszyfrowane backupy będą pomijane."
+                  : "The passphrase is kept only in browser memory and is forgotten when the browser closes, so it never sits on disk next to the library. After restarting the browser, enter it again or encrypted backups are skipped."}
+              </p>
+              <div className="row-gap">
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={isPl ? "Hasło" : "Passphrase"}
+                />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphraseConfirm}
+                  onChange={(e) => setPassphraseConfirm(e.target.value)}
+                  placeholder={isPl ? "Powtórz hasło" : "Repeat passphrase"}
+                />
+                <button type="submit">{isPl ? "Zapisz hasło" : "Save passphrase"}</button>
+              </div>
+              {passphraseError ? <p className="import-error">{passphraseError}</p> : null}
+            </form>
+          ) : null}
+        </>
+      ) : null}
+    </section>
+  );
+}
+
+function SnapshotRestoreSection({ lib, language }: { lib: LibraryApi; language: Language }) {
+  const isPl = language === "pl";
+  const [snapshots, setSnapshots] = useState<LibrarySnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  async function refresh() {
+    setSnapshots(await listSnapshots());
+  }
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const selected = snapshots.find((snapshot) => snapshot.id === selectedId) ?? null;
+  const preview = useMemo(() => {
+    if (!selected) return null;
+    try {
+      const db = parseDbJson(selected.json);
+      return { db, diff: diffSnapshot(lib.db, db) };
+    } catch {
+      return null;
+    }
+  }, [lib.db, selected]);
+
+  async function restore() {
+    if (!preview) return;
+    await lib.restoreSnapshot(preview.db);
+    setSelectedId(null);
+    await refresh();
+  }
+
+  return (
+    <section className="surface snapshot-restore">
+      <div className="section-title-row">
+        <h2>{isPl ? "Przywróć z kopii" : "Restore from snapshot"}</h2>
+        <button className="ghost" onClick={() => void refresh()}>{isPl ? "Odśwież" : "Refresh"}</button>
+      </div>
+      {snapshots.length === 0 ? <p>{isPl ? "Brak zapisanych kopii." : "No snapshots yet."}</p> : null}
+      <ul className="snapshot-list">
+        {snapshots.map((snapshot) => (
+          <li key={snapshot.id}>
+            <button
+              className={snapshot.id === selectedId ? "ghost active-filter" : "ghost"}
+              onClick={() => setSelectedId(snapshot.id === selectedId ? null : snapshot.id)}
+            >
+              {new Date(snapshot.createdAt).toLocaleString()} · {snapshotReasonLabel(snapshot.reason, language)} ·{" "}
+              {snapshot.promptCount} {isPl ? "promptów" : "prompts"}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && !preview ? (
+        <p className="import-error">{isPl ? "Tej kopii nie da się odczytać." : "This snapshot cannot be read."}</p>
+      ) : null}
+
+      {preview ? (
+        <div className="snapshot-preview">
+          <ul className="stats-list">
+            <li>{isPl ? "Wrócą usunięte prompty" : "Deleted prompts coming back"}: {preview.diff.restored.length}</li>
+            <li>{isPl ? "Prompty cofnięte do starszej wersji" : "Prompts reverted to an older version"}: {preview.diff.changed.length}</li>
+            <li>{isPl ? "Prompty, które znikną" : "Prompts that will be removed"}: {preview.diff.removed.length}</li>
+            <li>{isPl ? "Bez zmian" : "Unchanged"}: {preview.diff.unchangedCount}</li>
+            <li>
+              {isPl ? "Kategorie: wrócą / znikną" : "Categories: back / removed"}: {preview.diff.categoriesRestored.length} /{" "}
+              {preview.diff.categoriesRemoved.length}
+            </li>
+          </ul>
+          {[
+            { key: "restored", label: isPl ? "Wrócą" : "Coming back", prompts: preview.diff.restored },
+            { key: "changed", label: isPl ? "Cofnięte" : "Reverted", prompts: preview.diff.changed },
+            { key: "removed", label: isPl ? "Znikną" : "Removed", prompts: preview.diff.removed }
+          ]
+            .filter((group) => group.prompts.length > 0)
+            .map((group) => (
+              <div key={group.key} className="tag-cloud">
+                <strong>{group.label}:</strong>
+                {group.prompts.slice(0, 20).map((prompt) => (
+                  <span key={prompt.id} className="chip">{prompt.title}</span>
+                ))}
+                {group.prompts.length > 20 ? <span className="chip">+{group.prompts.length - 20}</span> : null}
+              </div>
+            ))}
+          <p>
+            {isPl
+              ? "Aktualna biblioteka zostanie zapisana jako kopia przed przywróceniem."
+              : "The current library is saved as a snapshot before restoring."}
+          </p>
+          <button className="danger" onClick={() => void restore()}>
+            {isPl ? "Przywróć tę kopię" : "Restore this snapshot"}
+          </button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+function SiteAccessSection({ language }: { language: Language }) {
+  const isPl = language === "pl";
+  const [granted, setGranted] = useState<string[]>([]);
+  const [customSite, setCustomSite] = useState("");
+  const [error, setError] = useState("");
+
+  async function refresh() {
+    setGranted(await listGrantedOrigins());
+  }
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  async function grant(origins: string[]) {
+    setError("");
+    try {
+      const ok = await requestSiteAccess(origins);
+      if (!ok) setError(isPl ? "Nie przyznano dostępu." : "Access was not granted.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    await refresh();
+  }
+
+  async function revoke(origins: string[]) {
+    setError("");
+    try {
+      await revokeSiteAccess(origins);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    await refresh();
+  }
+
+  async function addCustomSite(event: FormEvent) {
+    event.preventDefault();
+    const origin = toOriginPattern(customSite);
+    if (!origin) {
+      setError(isPl ? "Podaj adres strony, np. intranet.example.com" : "Enter a site address, e.g. intranet.example.com");
+      return;
+    }
+    await grant([origin]);
+    setCustomSite("");
+  }
+
+  const presetOrigins = new Set(OPTIONAL_SITES.flatMap((site) => site.origins));
+  const customOrigins = granted.filter((origin) => !presetOrigins.has(origin));
+
+  return (
+    <section className="surface">
+      <h2>{isPl ? "Obsługiwane strony" : "Supported sites"}</h2>
+      <p>
+        {isPl
+          ? `Zawsze aktywne: ${BUILT_IN_SITES.map((site) => site.label).join(", ")}. Inne strony wymagają zgody przeglądarki.`
+          : `Always on: ${BUILT_IN_SITES.map((site) => site.label).join(", ")}. Other sites need browser permission.`}
+      </p>
+      {!hasPermissionsApi ? (
+        <p className="site-hint">{isPl ? "Dostępne tylko w rozszerzeniu." : "Available only in the extension."}</p>
+      ) : (
+        <>
+          <ul className="site-list">
+            {OPTIONAL_SITES.map((site) => {
+              const enabled = site.origins.every((origin) => granted.includes(origin));
+              return (
+                <li key={site.id}>
+                  <span>{site.label}</span>
+                  <button className={enabled ? "ghost" : ""} onClick={() => void (enabled ? revoke(site.origins) : grant(site.origins))}>
+                    {enabled ? (isPl ? "Odbierz dostęp" : "Revoke access") : isPl ? "Przyznaj dostęp" : "Grant access"}
+                  </button>
+                </li>
+              );
+            })}
+            {customOrigins.map((origin) => (
+              <li key={origin}>
+                <span>{originLabel(origin)}</span>
+                <button className="ghost" onClick={() => void revoke([origin])}>
+                  {isPl ? "Odbierz dostęp" : "Revoke access"}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form className="row-gap" onSubmit={(event) => void addCustomSite(event)}>
+            <input
+              value={customSite}
+              onChange={(event) => setCustomSite(event.target.value)}
+              placeholder={isPl ? "Inna strona, np. intranet.example.com" : "Another site, e.g. intranet.example.com"}
+            />
+            <button type="submit">{isPl ? "Dodaj stronę" : "Add site"}</button>
+          </form>
+          <p className="site-hint">
+            {isPl
+              ? "Na innych stronach widżet szuka zwykłego pola tekstowego; zapis wiadomości działa tylko na stronach z listy."
+              : "On other sites the widget looks for a plain text box; saving messages works only on listed sites."}
+          </p>
+        </>
+      )}
+      {error ? <p className="import-error">{error}</p> : null}
+    </section>
+  );
+}
+
 function SettingsPage({
   language,
   onLanguageChange,
@@ -1475,10 +4378,58 @@ function SettingsPage({
             onChange={(event) => void onQuickSaveToggle(event.target.checked)}
           />
           {isPl
-            ? "Pokazuj przycisk `Save to Prompter` na ChatGPT i Claude"
-            : "Show the `Save to Prompter` button on ChatGPT and Claude"}
+            ? "Pokazuj przycisk `Save to Prompter` na obsługiwanych stronach"
+            : "Show the `Save to Prompter` button on supported sites"}
         </label>
       </section>
+
+      <SiteAccessSection language={language} />
+    </div>
+  );
+}
+
+function LoadErrorScreen({ lib, code, language }: { lib: LibraryApi; code: DbErrorCode; language: Language }) {
+  const isPl = language === "pl";
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  async function downloadRaw() {
+    const raw = await lib.readRawData();
+    if (!raw) return;
+    downloadBlob(new Blob([raw], { type: "application/json" }), `prompts-raw-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  return (
+    <div className="surface load-error">
+      <h2>{isPl ? "Nie można otworzyć biblioteki" : "Cannot open the library"}</h2>
+      <p className="import-error">{dbErrorMessage(code, language)}</p>
+      <p>
+        {isPl
+          ? "Dane nie zostały zmienione. Pobierz surowe dane, aby je naprawić lub zachować, zanim cokolwiek zresetujesz."
+          : "Your data was left untouched. Download the raw data to repair or keep it before resetting anything."}
+      </p>
+      <div className="row-gap">
+        <button onClick={() => void downloadRaw()}>{isPl ? "Pobierz surowe dane" : "Download raw data"}</button>
+        <button className="ghost" onClick={lib.retryLoad}>{isPl ? "Spróbuj ponownie" : "Retry"}</button>
+        {confirmReset ? (
+          <>
+            <button className="danger" onClick={() => void lib.resetLibrary()}>
+              {isPl ? "Potwierdź reset" : "Confirm reset"}
+            </button>
+            <button className="ghost" onClick={() => setConfirmReset(false)}>{isPl ? "Anuluj" : "Cancel"}</button>
+          </>
+        ) : (
+          <button className="danger" onClick={() => setConfirmReset(true)}>
+            {isPl ? "Zacznij od pustej biblioteki" : "Start with an empty library"}
+          </button>
+        )}
+      </div>
+      {confirmReset ? (
+        <small>
+          {isPl
+            ? `Kopia obecnych danych zostanie zachowana w chrome.storage.local pod kluczem ${CORRUPT_SNAPSHOT_KEY}.`
+            : `A copy of the current data is kept in chrome.storage.local under ${CORRUPT_SNAPSHOT_KEY}.`}
+        </small>
+      ) : null}
     </div>
   );
 }
@@ -1489,6 +4440,7 @@ function App() {
   const lib = useLibrary(language);
   const { route, navigate } = useRouteState();
   const [backupNoticeOpen, setBackupNoticeOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<string[] | null>(null);
   const isPl = language === "pl";
 
   useEffect(() => {
@@ -1497,6 +4449,36 @@ function App() {
     }
   }, [lib.backupPending]);
 
+  // Text fields keep their native undo; everywhere else Ctrl/Cmd+Z walks the library history.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.key.toLowerCase() !== "z") return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      event.preventDefault();
+      if (event.shiftKey) lib.redo();
+      else lib.undo();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [lib]);
+
+  // "Export these" only applies to the visit it started; the next visit exports everything again.
+  useEffect(() => {
+    if (route.page !== "data") setExportScope(null);
+  }, [route.page]);
+
+  if (lib.loadError) {
+    return (
+      <div className="shell">
+        <section className="workspace">
+          <LoadErrorScreen lib={lib} code={lib.loadError} language={language} />
+        </section>
+      </div>
+    );
+  }
+
   if (lib.loading) {
     return (
       <div className="shell">
@@ -1528,9 +4510,21 @@ function App() {
           <NavButton page="create" current={route.page} onClick={(page) => navigate(page)}>
             {isPl ? "Nowy prompt" : "New prompt"}
           </NavButton>
+          <NavButton page="chains" current={route.page} onClick={(page) => navigate(page)}>
+            {isPl ? "Łańcuchy" : "Chains"}
+          </NavButton>
+          <NavButton page="snippets" current={route.page} onClick={(page) => navigate(page)}>
+            {isPl ? "Fragmenty" : "Snippets"}
+          </NavButton>
           <NavButton page="categories" current={route.page} onClick={(page) => navigate(page)}>
             {isPl ? "Kategorie" : "Categories"}
           </NavButton>
+          <NavButton page="duplicates" current={route.page} onClick={(page) => navigate(page)}>
+            {isPl ? "Duplikaty" : "Duplicates"}
+          </NavButton>
+          <NavButton page="trash" current={route.page} onClick={(page) => navigate(page)}>
+            {isPl ? `Kosz (${lib.db.trash.length})` : `Trash (${lib.db.trash.length})`}
+          </NavButton>
           <NavButton page="data" current={route.page} onClick={(page) => navigate(page)}>
             {isPl ? "Dane" : "Data"}
           </NavButton>
@@ -1539,6 +4533,15 @@ function App() {
           </NavButton>
         </nav>
 
+        <section className="sidebar-tree">
+          <h4>{isPl ? "Kategorie" : "Categories"}</h4>
+          <CategoryTree
+            lib={lib}
+            language={language}
+            onSelect={(id) => navigate("prompts", { category: id })}
+          />
+        </section>
+
         <div className="sidebar-card">
           <p>
             {lib.db.prompts.length} {isPl ? "promptów" : "prompts"}
@@ -1581,7 +4584,9 @@ function App() {
             {backupNoticeOpen ? (
               <div className="backup-actions" onClick={(event) => event.stopPropagation()}>
                 <button className="ghost" onClick={() => void lib.backupNow()}>
-                  {isPl ? "Pobierz backup (nadpisz stary)" : "Download backup (overwrite old)"}
+                  {isPl
+                    ? "Pobierz nowy backup (najstarsze ponad limit są usuwane)"
+                    : "Download new backup (oldest beyond the limit are removed)"}
                 </button>
                 <button className="ghost" onClick={lib.dismissBackupNotice}>
                   {isPl ? "Ukryj" : "Hide"}
@@ -1593,19 +4598,49 @@ function App() {
 
         {lib.error ? <div className="error-banner" onClick={lib.clearError}>{lib.error}</div> : null}
 
-        {route.page === "dashboard" ? <DashboardPage db={lib.db} navigate={navigate} language={language} /> : null}
+        {lib.syncConflicts.length > 0 ? (
+          <div className="sync-notice" onClick={lib.dismissSyncConflicts}>
+            <strong>
+              {isPl
+                ? "Ten sam prompt zmieniono jednocześnie w innym miejscu. Zachowano nowszą wersję, starsza jest w historii wersji:"
+                : "The same prompt was changed elsewhere at the same time. The newer version was kept; the older one is in version history:"}
+            </strong>
+            <span>{lib.syncConflicts.join(", ")}</span>
+          </div>
+        ) : null}
+
+        {route.page === "dashboard" ? <DashboardPage lib={lib} navigate={navigate} language={language} /> : null}
         {route.page === "prompts" ? (
           <PromptsPage
             lib={lib}
             params={route.params}
             clearParams={() => navigate("prompts")}
             navigate={navigate}
+            onExportFiltered={(promptIds) => {
+              setExportScope(promptIds);
+              navigate("data");
+            }}
             language={language}
           />
         ) : null}
         {route.page === "create" ? <CreatePromptPage lib={lib} params={route.params} navigate={navigate} language={language} /> : null}
         {route.page === "categories" ? <CategoriesPage lib={lib} language={language} /> : null}
-        {route.page === "data" ? <DataPage lib={lib} language={language} /> : null}
+        {route.page === "chains" ? (
+          <ChainsPage lib={lib} params={route.params} navigate={navigate} language={language} />
+        ) : null}
+        {route.page === "snippets" ? (
+          <SnippetsPage lib={lib} params={route.params} navigate={navigate} language={language} />
+        ) : null}
+        {route.page === "duplicates" ? <DuplicatesPage lib={lib} navigate={navigate} language={language} /> : null}
+        {route.page === "trash" ? <TrashPage lib={lib} language={language} /> : null}
+        {route.page === "data" ? (
+          <DataPage
+            lib={lib}
+            exportScope={exportScope}
+            clearExportScope={() => setExportScope(null)}
+            language={language}
+          />
+        ) : null}
         {route.page === "settings" ? (
           <SettingsPage
             language={language}
@@ -1616,7 +4651,14 @@ function App() {
         ) : null}
       </section>
 
-      {lib.toast ? <div className="toast">{lib.toast}</div> : null}
+      {lib.toast ? (
+        <div className="toast">
+          {lib.toast}
+          {lib.toastUndoable && lib.canUndo ? (
+            <button className="ghost toast-action" onClick={lib.undo}>{isPl ? "Cofnij" : "Undo"}</button>
+          ) : null}
+        </div>
+      ) : null}
     </div>
   );
 }
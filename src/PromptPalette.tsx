@@ -0,0 +1,277 @@
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { HighlightedText } from "./components/HighlightedText";
+import { VariableFillForm } from "./components/VariableFillForm";
+import { txt, useLanguage } from "./i18n";
+import { normalizeDb, parseDbJson } from "./shared/db";
+import { comparePickerOrder, markPromptUsed, togglePromptFavorite } from "./shared/library";
+import { MESSAGE_VERSION } from "./shared/messages";
+import type { TabMessage, TabMessageResponse } from "./shared/messages";
+import { nowIso } from "./shared/model";
+import type { DbFile, Prompt, VariableValues } from "./shared/model";
+import { buildSearchIndex, hasTextQuery, highlightRanges, parseSearchQuery, searchPrompts } from "./shared/search";
+import {
+  chromeApi,
+  loadDb,
+  loadVariableValues,
+  saveVariableValues,
+  subscribeToStoredDb,
+  writeStoredDbRaw
+} from "./shared/storage";
+import { expandPrompt } from "./shared/snippets";
+import { renderTemplate } from "./shared/templates";
+import { recordUsage } from "./shared/usage";
+
+type DeliverAction = "insert" | "copy";
+
+const MAX_RESULTS = 50;
+
+// Resolves to the hostname the text was inserted on, or null when it could not be inserted.
+async function insertIntoActiveTab(text: string): Promise<string | null> {
+  if (!chromeApi?.tabs?.query) return null;
+  const [tab] = await chromeApi.tabs.query({ active: true, currentWindow: true });
+  if (typeof tab?.id !== "number") return null;
+
+  const message: TabMessage = { type: "INSERT_TEXT", version: MESSAGE_VERSION, text };
+  try {
+    const response: TabMessageResponse | undefined = await chromeApi.tabs.sendMessage(tab.id, message, { frameId: 0 });
+    return response?.ok === true ? response.site : null;
+  } catch {
+    // No content script on this page (not a supported site, or the tab predates the extension).
+    return null;
+  }
+}
+
+function openInApp(hash: string) {
+  const url = chromeApi?.runtime?.getURL ? chromeApi.runtime.getURL(`index.html${hash}`) : `index.html${hash}`;
+  if (chromeApi?.tabs?.create) {
+    void chromeApi.tabs.create({ url });
+  } else {
+    window.open(url, "_blank");
+  }
+  window.close();
+}
+
+function PromptPalette() {
+  const [language] = useLanguage();
+  const isPl = language === "pl";
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const [db, setDb] = useState<DbFile | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [variableValues, setVariableValues] = useState<VariableValues>({});
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [filling, setFilling] = useState<{ prompt: Prompt; action: DeliverAction } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    void Promise.all([loadDb(), loadVariableValues()])
+      .then(([loaded, values]) => {
+        setDb(loaded);
+        setVariableValues(values);
+      })
+      .catch((e) => {
+        console.error("Prompter: could not load library", e);
+        setLoadFailed(true);
+      });
+
+    return subscribeToStoredDb((raw) => {
+      if (!raw) return;
+      try {
+        setDb(parseDbJson(raw));
+      } catch {
+        // The full app reports unreadable data; the palette keeps what it has.
+      }
+    });
+  }, []);
+
+  const prompts = db?.prompts ?? [];
+  const categories = db?.categories ?? [];
+  const searchIndex = useMemo(() => buildSearchIndex(prompts, categories), [categories, prompts]);
+  const searchQuery = useMemo(() => parseSearchQuery(query), [query]);
+  const hits = useMemo(() => {
+    const found = searchPrompts(searchIndex, searchQuery);
+    if (!hasTextQuery(searchQuery)) found.sort((a, b) => comparePickerOrder(a.prompt, b.prompt));
+    return found.slice(0, MAX_RESULTS);
+  }, [searchIndex, searchQuery]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  const activeHit = hits[Math.min(activeIndex, hits.length - 1)] ?? null;
+
+  // Re-reads storage before writing so a change made elsewhere since the popup opened is kept.
+  async function update(mutator: (prev: DbFile) => DbFile) {
+    const current = await loadDb();
+    const next = normalizeDb(mutator(current));
+    await writeStoredDbRaw(JSON.stringify(next));
+    setDb(next);
+  }
+
+  async function deliver(prompt: Prompt, action: DeliverAction, values?: VariableValues) {
+    const text = values ? renderTemplate(prompt.content, values) : prompt.content;
+    let insertedOn: string | null = null;
+
+    try {
+      if (action === "insert") insertedOn = await insertIntoActiveTab(text);
+      if (insertedOn === null) await navigator.clipboard.writeText(text);
+    } catch {
+      setStatus(txt(language, "Nie udało się skopiować do schowka", "Could not copy to clipboard"));
+      return;
+    }
+
+    if (values && Object.keys(values).length > 0) {
+      const nextValues = { ...variableValues, ...values };
+      setVariableValues(nextValues);
+      await saveVariableValues(nextValues);
+    }
+    const now = nowIso();
+    await update((prev) => markPromptUsed(prev, prompt.id, now));
+    await recordUsage({
+      promptId: prompt.id,
+      action: insertedOn === null ? "copy" : "insert",
+      at: now,
+      site: insertedOn,
+      values: values ?? {}
+    });
+
+    if (action === "insert" && insertedOn === null) {
+      setFilling(null);
+      setStatus(
+        txt(
+          language,
+          "Na tej stronie nie ma pola wiadomości - prompt skopiowano do schowka",
+          "No message box on this page - the prompt was copied to the clipboard"
+        )
+      );
+      return;
+    }
+    window.close();
+  }
+
+  function run(original: Prompt, action: DeliverAction) {
+    setStatus(null);
+    const prompt = expandPrompt(original, db?.snippets ?? []);
+    if (prompt.variables.length > 0) {
+      setFilling({ prompt, action });
+      return;
+    }
+    void deliver(prompt, action);
+  }
+
+  function onSearchKeyDown(event: KeyboardEvent<HTMLInputElement>) {
+    const cmd = event.metaKey || event.ctrlKey;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) => Math.max(0, Math.min(hits.length - 1, index + step)));
+      return;
+    }
+    if (!activeHit) return;
+
+    if (event.key === "Enter") {
+      event.preventDefault();
+      run(activeHit.prompt, cmd ? "copy" : "insert");
+    } else if (cmd && event.key.toLowerCase() === "d") {
+      event.preventDefault();
+      void update((prev) => togglePromptFavorite(prev, activeHit.prompt.id, nowIso()));
+    } else if (cmd && event.key.toLowerCase() === "e") {
+      event.preventDefault();
+      openInApp(`#create?id=${encodeURIComponent(activeHit.prompt.id)}`);
+    }
+  }
+
+  if (loadFailed) {
+    return (
+      <div className="palette">
+        <p className="import-error">
+          {isPl ? "Nie można otworzyć biblioteki." : "Cannot open the library."}
+        </p>
+        <button onClick={() => openInApp("#dashboard")}>{isPl ? "Otwórz aplikację" : "Open app"}</button>
+      </div>
+    );
+  }
+
+  if (filling) {
+    return (
+      <div className="palette">
+        <h2 className="palette-title">{filling.prompt.title}</h2>
+        <VariableFillForm
+          prompt={filling.prompt}
+          remembered={variableValues}
+          onSubmit={(values) => void deliver(filling.prompt, filling.action, values)}
+          onCancel={() => {
+            setFilling(null);
+            searchRef.current?.focus();
+          }}
+          language={language}
+          submitLabel={
+            filling.action === "insert" ? (isPl ? "Wstaw uzupełniony" : "Insert filled") : undefined
+          }
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="palette">
+      <input
+        ref={searchRef}
+        autoFocus
+        className="palette-search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        onKeyDown={onSearchKeyDown}
+        placeholder={isPl ? "Szukaj promptów... (tag:, cat:, fav:)" : "Search prompts... (tag:, cat:, fav:)"}
+      />
+
+      <ul className="palette-list">
+        {hits.map((hit, index) => (
+          <li
+            key={hit.prompt.id}
+            className={hit === activeHit ? "palette-item active" : "palette-item"}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => run(hit.prompt, "insert")}
+          >
+            <div className="row-between">
+              <strong>
+                <HighlightedText text={hit.prompt.title} ranges={highlightRanges(hit.prompt.title, hit.matches)} />
+              </strong>
+              <button
+                className="ghost palette-star"
+                title={isPl ? "Ulubiony (Ctrl/Cmd+D)" : "Favorite (Ctrl/Cmd+D)"}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  void update((prev) => togglePromptFavorite(prev, hit.prompt.id, nowIso()));
+                }}
+              >
+                {hit.prompt.favorite ? "★" : "☆"}
+              </button>
+            </div>
+            <small>{hit.prompt.content.slice(0, 90)}</small>
+          </li>
+        ))}
+        {db && hits.length === 0 ? (
+          <li className="palette-empty">{isPl ? "Brak wyników" : "No results"}</li>
+        ) : null}
+      </ul>
+
+      {status ? <p className="palette-status">{status}</p> : null}
+
+      <footer className="palette-footer">
+        <span>
+          {isPl
+            ? "Enter: wstaw · Ctrl/Cmd+Enter: kopiuj · Ctrl/Cmd+E: edytuj"
+            : "Enter: insert · Ctrl/Cmd+Enter: copy · Ctrl/Cmd+E: edit"}
+        </span>
+        <button className="ghost" onClick={() => openInApp("#prompts")}>
+          {isPl ? "Biblioteka" : "Library"}
+        </button>
+      </footer>
+    </div>
+  );
+}
+
+export default PromptPalette;
@@ -0,0 +1,347 @@
+import {
+  BACKUP_FILE_PATTERN,
+  BACKUP_SETTINGS_KEY,
+  addSnapshot,
+  backupFileName,
+  dropStoredBackupPassphrase,
+  loadBackupPassphrase,
+  loadBackupSettings
+} from "./shared/backups";
+import { encryptText } from "./shared/crypto";
+import type { BackupSkipReason, SnapshotReason } from "./shared/backups";
+import { loadPageChainRun, savePageChainRun } from "./shared/chains";
+import { DbError, normalizeDb, normalizeExamples } from "./shared/db";
+import { findSimilarPrompt } from "./shared/duplicates";
+import { comparePickerOrder, createPromptRecord, markPromptUsed } from "./shared/library";
+import { MESSAGE_VERSION, isRuntimeMessage } from "./shared/messages";
+import type {
+  MessageResponse,
+  PickerChain,
+  PickerPrompt,
+  QuickSavePayload,
+  RuntimeMessage,
+  SimilarPromptInfo
+} from "./shared/messages";
+import { nowIso, uuid } from "./shared/model";
+import type { DbFile, VariableValues } from "./shared/model";
+import { EXTRA_SITES_SCRIPT_ID, listGrantedOrigins } from "./shared/sites";
+import { expandPrompt } from "./shared/snippets";
+import { renderTemplate } from "./shared/templates";
+import { STORAGE_KEY, chromeApi, loadDb, readStoredDbRaw, writeStoredDbRaw } from "./shared/storage";
+import { recordUsage } from "./shared/usage";
+
+const BACKUP_ALARM = "prompter.backup";
+// Re-created on every library write, so it only fires once edits have been quiet for this long.
+const CHANGE_BACKUP_ALARM = "prompter.backup.change";
+const CHANGE_BACKUP_DELAY_MINUTES = 1;
+
+// Error texts stay Polish; the content script translates the ones it knows.
+async function getDb(): Promise<DbFile> {
+  try {
+    return await loadDb();
+  } catch (e) {
+    if (e instanceof DbError && e.code === "unsupportedVersion") {
+      throw new Error("Biblioteka pochodzi z nowszej wersji rozszerzenia");
+    }
+    throw new Error("Biblioteka jest uszkodzona");
+  }
+}
+
+async function saveDb(db: DbFile) {
+  await writeStoredDbRaw(JSON.stringify(db));
+}
+
+async function savePromptFromPage(payload: QuickSavePayload): Promise<SimilarPromptInfo | null> {
+  const title = typeof payload?.title === "string" ? payload.title.trim() : "";
+  const content = typeof payload?.content === "string" ? payload.content.trim() : "";
+  const tagsRaw = typeof payload?.tags === "string" ? payload.tags : "";
+
+  if (!title) {
+    throw new Error("Tytul jest wymagany");
+  }
+  if (!content) {
+    throw new Error("Tresc promptu jest wymagana");
+  }
+
+  const db = await getDb();
+  if (payload?.allowDuplicate !== true) {
+    const similar = findSimilarPrompt(db.prompts, content);
+    if (similar) return { id: similar.prompt.id, title: similar.prompt.title, similarity: similar.similarity };
+  }
+
+  const now = nowIso();
+  const site = typeof payload?.source === "string" ? payload.source.trim() : "";
+  const page = payload?.page && typeof payload.page === "object" ? payload.page : {};
+  const source = site
+    ? {
+        site,
+        url: typeof page.url === "string" ? page.url : "",
+        conversationTitle: typeof page.conversationTitle === "string" ? page.conversationTitle.trim() : "",
+        model: typeof page.model === "string" ? page.model.trim() : "",
+        capturedAt: now
+      }
+    : null;
+
+  const prompt = createPromptRecord(
+    { id: uuid(), title, content, tags: tagsRaw.split(","), source, examples: normalizeExamples(payload?.examples) },
+    now
+  );
+  await saveDb(normalizeDb({ ...db, prompts: [...db.prompts, prompt] }));
+  return null;
+}
+
+async function listPromptsForPage(): Promise<{ prompts: PickerPrompt[]; chains: PickerChain[] }> {
+  const db = await getDb();
+  const live = new Set(db.prompts.map((prompt) => prompt.id));
+  const chains = db.chains
+    .map((chain) => ({
+      id: chain.id,
+      title: chain.title,
+      steps: chain.steps.filter((step) => live.has(step.promptId)).map(({ promptId, note }) => ({ promptId, note }))
+    }))
+    .filter((chain) => chain.steps.length > 0)
+    .sort((a, b) => a.title.localeCompare(b.title, "pl", { sensitivity: "base" }));
+  // The widget inserts what it receives, so includes are expanded here.
+  const prompts = [...db.prompts]
+    .sort(comparePickerOrder)
+    .map((original) => expandPrompt(original, db.snippets))
+    .map((prompt) => ({
+      id: prompt.id,
+      title: prompt.title,
+      content: prompt.content,
+      tags: prompt.tags,
+      variables: prompt.variables,
+      favorite: prompt.favorite,
+      lastUsedAt: prompt.lastUsedAt
+    }));
+  return { prompts, chains };
+}
+
+async function renderPromptForPage(id: string, values: VariableValues): Promise<string> {
+  const db = await getDb();
+  const prompt = db.prompts.find((p) => p.id === id);
+  if (!prompt) {
+    throw new Error("Prompt nie istnieje");
+  }
+  return renderTemplate(expandPrompt(prompt, db.snippets).content, values);
+}
+
+async function markUsed(id: string, site: string | undefined, values: VariableValues | undefined) {
+  const db = await getDb();
+  if (!db.prompts.some((p) => p.id === id)) {
+    throw new Error("Prompt nie istnieje");
+  }
+  const now = nowIso();
+  await saveDb(markPromptUsed(db, id, now));
+  await recordUsage({ promptId: id, action: "insert", at: now, site: site ?? null, values: values ?? {} });
+}
+
+function downloadBackupFile(json: string): Promise<void> {
+  const url = `data:application/json;charset=utf-8,${encodeURIComponent(json)}`;
+  return new Promise((resolve, reject) => {
+    chromeApi.downloads.download(
+      {
+        url,
+        filename: backupFileName(new Date()),
+        saveAs: false,
+        conflictAction: "uniquify"
+      },
+      () => {
+        if (chromeApi.runtime.lastError) {
+          reject(new Error(chromeApi.runtime.lastError.message));
+          return;
+        }
+        resolve();
+      }
+    );
+  });
+}
+
+// Deletes timestamped backup files beyond the retention count; other files in the folder are left alone.
+async function pruneBackupFiles(retention: number) {
+  const items: Array<{ id: number; filename: string }> = await chromeApi.downloads.search({
+    filenameRegex: "prompter_chrome[/\\\\]prompts-",
+    orderBy: ["-startTime"],
+    exists: true
+  });
+  const backups = items.filter((item) => BACKUP_FILE_PATTERN.test(item.filename));
+
+  for (const item of backups.slice(retention)) {
+    try {
+      await chromeApi.downloads.removeFile(item.id);
+    } catch {
+      // Already deleted or moved by the user; only drop it from the download list.
+    }
+    await chromeApi.downloads.erase({ id: item.id });
+  }
+}
+
+// Null when a file was written or an automatic run had nothing new to save.
+async function runBackup(reason: SnapshotReason, json?: string): Promise<BackupSkipReason | null> {
+  const raw = json ?? (await readStoredDbRaw());
+  if (!raw) return "noData";
+
+  let pretty: string;
+  try {
+    pretty = JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    console.warn("Prompter backup skipped: library data is not valid JSON");
+    return "invalidData";
+  }
+
+  const settings = await loadBackupSettings();
+  const snapshot = await addSnapshot(raw, reason, settings.retention);
+  // Automatic runs skip the file when nothing changed since the last snapshot.
+  if (!snapshot && reason !== "manual") return null;
+
+  if (settings.encrypt) {
+    const passphrase = await loadBackupPassphrase();
+    if (!passphrase) {
+      // Never fall back to a plain file when the user asked for encryption.
+      console.warn("Prompter backup skipped: encryption is on but no passphrase was entered in this browser session");
+      return "noPassphrase";
+    }
+    await downloadBackupFile(await encryptText(pretty, passphrase));
+  } else {
+    await downloadBackupFile(pretty);
+  }
+  await pruneBackupFiles(settings.retention);
+  return null;
+}
+
+async function scheduleBackups() {
+  const { schedule } = await loadBackupSettings();
+  const period = schedule === "hourly" ? 60 : schedule === "daily" ? 24 * 60 : 0;
+
+  const existing = await chromeApi.alarms.get(BACKUP_ALARM);
+  // Keep a matching alarm so browser restarts do not keep pushing the next run back.
+  if (existing && existing.periodInMinutes === period) return;
+
+  await chromeApi.alarms.clear(BACKUP_ALARM);
+  if (schedule !== "onChange") await chromeApi.alarms.clear(CHANGE_BACKUP_ALARM);
+  if (period > 0) {
+    await chromeApi.alarms.create(BACKUP_ALARM, { delayInMinutes: period, periodInMinutes: period });
+  }
+}
+
+function runBackupSafely(reason: SnapshotReason, json?: string) {
+  void runBackup(reason, json).catch((error) => {
+    console.error("Prompter: backup failed", error);
+  });
+}
+
+type MessageSender = { tab?: { id?: number } };
+
+function senderTabId(sender: MessageSender): number {
+  const tabId = sender.tab?.id;
+  if (typeof tabId !== "number") {
+    throw new Error("Wiadomosc nie pochodzi z karty");
+  }
+  return tabId;
+}
+
+async function handleMessage(
+  message: RuntimeMessage,
+  sender: MessageSender
+): Promise<MessageResponse<RuntimeMessage["type"]>> {
+  if (message.type === "BACKUP_NOW") {
+    const skipped = await runBackup("manual", message.json);
+    return skipped ? { ok: true, saved: false, reason: skipped } : { ok: true, saved: true };
+  }
+
+  if (message.type === "SAVE_PROMPT_FROM_PAGE") {
+    const similar = await savePromptFromPage(message.payload);
+    return similar ? { ok: true, saved: false, similar } : { ok: true, saved: true };
+  }
+
+  if (message.type === "LIST_PROMPTS") {
+    return { ok: true, ...(await listPromptsForPage()) };
+  }
+
+  if (message.type === "RENDER_PROMPT") {
+    return { ok: true, text: await renderPromptForPage(message.id, message.values) };
+  }
+
+  if (message.type === "GET_CHAIN_RUN") {
+    return { ok: true, run: await loadPageChainRun(senderTabId(sender)) };
+  }
+
+  if (message.type === "SET_CHAIN_RUN") {
+    await savePageChainRun(senderTabId(sender), message.run);
+    return { ok: true };
+  }
+
+  await markUsed(message.id, message.site, message.values);
+  return { ok: true };
+}
+
+chromeApi.runtime.onMessage.addListener(
+  (message: unknown, sender: MessageSender, sendResponse: (response: MessageResponse<RuntimeMessage["type"]>) => void) => {
+    if (!isRuntimeMessage(message)) return;
+
+    if (message.version !== MESSAGE_VERSION) {
+      sendResponse({ ok: false, error: "Nieobslugiwana wersja wiadomosci" });
+      return;
+    }
+
+    void handleMessage(message, sender)
+      .then(sendResponse)
+      .catch((error) => {
+        sendResponse({ ok: false, error: error instanceof Error ? error.message : "Blad zapisu" });
+      });
+    return true;
+  }
+);
+
+// Sites granted from Settings get the same content script through a dynamic registration.
+async function syncExtraSiteScripts() {
+  const origins = await listGrantedOrigins();
+  const registered = await chromeApi.scripting.getRegisteredContentScripts({ ids: [EXTRA_SITES_SCRIPT_ID] });
+  if (registered.length > 0) {
+    await chromeApi.scripting.unregisterContentScripts({ ids: [EXTRA_SITES_SCRIPT_ID] });
+  }
+  if (origins.length === 0) return;
+
+  await chromeApi.scripting.registerContentScripts([
+    {
+      id: EXTRA_SITES_SCRIPT_ID,
+      matches: origins,
+      js: ["content-script.js"],
+      runAt: "document_idle"
+    }
+  ]);
+}
+
+function syncExtraSiteScriptsSafely() {
+  void syncExtraSiteScripts().catch((error) => {
+    console.error("Prompter: cannot register content script for extra sites", error);
+  });
+}
+
+chromeApi.runtime.onInstalled.addListener(syncExtraSiteScriptsSafely);
+chromeApi.runtime.onStartup.addListener(syncExtraSiteScriptsSafely);
+chromeApi.permissions.onAdded.addListener(syncExtraSiteScriptsSafely);
+chromeApi.permissions.onRemoved.addListener(syncExtraSiteScriptsSafely);
+
+chromeApi.runtime.onInstalled.addListener(() => void scheduleBackups());
+chromeApi.runtime.onInstalled.addListener(() => void dropStoredBackupPassphrase());
+chromeApi.runtime.onStartup.addListener(() => void scheduleBackups());
+
+chromeApi.tabs.onRemoved.addListener((tabId: number) => void savePageChainRun(tabId, null));
+
+chromeApi.alarms.onAlarm.addListener((alarm: { name: string }) => {
+  if (alarm.name === BACKUP_ALARM) runBackupSafely("scheduled");
+  if (alarm.name === CHANGE_BACKUP_ALARM) runBackupSafely("change");
+});
+
+chromeApi.storage.onChanged.addListener((changes: Record<string, unknown>, area: string) => {
+  if (area !== "local") return;
+  if (changes[BACKUP_SETTINGS_KEY]) void scheduleBackups();
+  if (changes[STORAGE_KEY]) {
+    void loadBackupSettings().then(({ schedule }) => {
+      if (schedule === "onChange") {
+        chromeApi.alarms.create(CHANGE_BACKUP_ALARM, { delayInMinutes: CHANGE_BACKUP_DELAY_MINUTES });
+      }
+    });
+  }
+});
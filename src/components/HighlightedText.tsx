@@ -0,0 +1,15 @@
+import type { TextRange } from "../shared/search";
+
+export function HighlightedText({ text, ranges }: { text: string; ranges: TextRange[] }) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start > cursor) parts.push(<span key={`t${cursor}`}>{text.slice(cursor, range.start)}</span>);
+    parts.push(<mark key={`m${range.start}`}>{text.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  }
+  if (cursor < text.length) parts.push(<span key={`t${cursor}`}>{text.slice(cursor)}</span>);
+  return <>{parts}</>;
+}
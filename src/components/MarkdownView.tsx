@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import { parseMarkdown } from "../shared/markdown";
+import type { InlineNode } from "../shared/markdown";
+
+function Inline({ nodes }: { nodes: InlineNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        if (node.kind === "code") return <code key={index}>{node.text}</code>;
+        if (node.kind === "strong") return <strong key={index}>{node.text}</strong>;
+        if (node.kind === "em") return <em key={index}>{node.text}</em>;
+        if (node.kind === "variable") return <span key={index} className="md-variable">{node.text}</span>;
+        if (node.kind === "include") return <span key={index} className="md-include">{node.text}</span>;
+        if (node.kind === "link" && node.href) {
+          return (
+            <a key={index} href={node.href} target="_blank" rel="noreferrer">
+              {node.text}
+            </a>
+          );
+        }
+        return <span key={index}>{node.text}</span>;
+      })}
+    </>
+  );
+}
+
+function Lines({ lines }: { lines: InlineNode[][] }) {
+  return (
+    <>
+      {lines.map((line, index) => (
+        <span key={index}>
+          {index > 0 ? <br /> : null}
+          <Inline nodes={line} />
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function MarkdownView({ text }: { text: string }) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className="markdown-view">
+      {blocks.map((block, index) => {
+        if (block.type === "heading") {
+          const Tag = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+          return <Tag key={index}><Inline nodes={block.inline} /></Tag>;
+        }
+        if (block.type === "paragraph") return <p key={index}><Lines lines={block.lines} /></p>;
+        if (block.type === "quote") return <blockquote key={index}><Lines lines={block.lines} /></blockquote>;
+        if (block.type === "code") return <pre key={index}><code>{block.text}</code></pre>;
+        if (block.type === "rule") return <hr key={index} />;
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>
+            <Inline nodes={item} />
+          </li>
+        ));
+        return block.ordered ? <ol key={index}>{items}</ol> : <ul key={index}>{items}</ul>;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { KeyboardEvent, RefObject, useMemo, useRef, useState } from "react";
+import { txt } from "../i18n";
+import type { Language } from "../i18n";
+import { tokenizeSource } from "../shared/markdown";
+import type { SourceToken } from "../shared/markdown";
+import { DEFAULT_FIND_OPTIONS, compileFind, findMatches, replaceMatches } from "../shared/replace";
+import type { FindMatch, FindOptions } from "../shared/replace";
+import { contextWarnings, textStats } from "../shared/tokens";
+import { MarkdownView } from "./MarkdownView";
+
+type Segment = { text: string; kind: string | null; match: "hit" | "active" | null };
+
+// Cuts highlight tokens at find-match boundaries so matches can be marked inside any token.
+function segmentTokens(tokens: SourceToken[], matches: FindMatch[], activeIndex: number): Segment[] {
+  const segments: Segment[] = [];
+  let offset = 0;
+  let matchIndex = 0;
+  for (const token of tokens) {
+    let cursor = 0;
+    while (cursor < token.text.length) {
+      const position = offset + cursor;
+      while (matchIndex < matches.length && matches[matchIndex].end <= position) matchIndex++;
+      const match = matches[matchIndex];
+      const inside = !!match && match.start <= position;
+      const boundary = inside ? match.end : match ? match.start : Infinity;
+      const length = Math.min(token.text.length - cursor, boundary - position);
+      segments.push({
+        text: token.text.slice(cursor, cursor + length),
+        kind: token.kind,
+        match: inside ? (matchIndex === activeIndex ? "active" : "hit") : null
+      });
+      cursor += length;
+    }
+    offset += token.text.length;
+  }
+  return segments;
+}
+
+/**
+ * Prompt text editor: a textarea over a highlighted copy of its text (variables, includes and
+ * Markdown), with a rendered preview, find/replace (Ctrl/Cmd+F) and live counts. `statsText` is
+ * what the counts are taken from when it differs from the source, e.g. with snippets expanded.
+ */
+export function PromptEditor({
+  value,
+  onChange,
+  language,
+  textareaRef,
+  statsText,
+  rows = 16,
+  required
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  language: Language;
+  textareaRef?: RefObject<HTMLTextAreaElement>;
+  statsText?: string;
+  rows?: number;
+  required?: boolean;
+}) {
+  const isPl = language === "pl";
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const inputRef = textareaRef ?? ownRef;
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [findOpen, setFindOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const tokens = useMemo(() => tokenizeSource(value), [value]);
+  const { matches, findError } = useMemo(() => {
+    if (!findOpen) return { matches: [], findError: null };
+    try {
+      const pattern = compileFind(query, options);
+      return { matches: pattern ? findMatches(value, pattern) : [], findError: null };
+    } catch (e) {
+      return { matches: [], findError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [findOpen, options, query, value]);
+  const current = matches.length > 0 ? Math.min(activeIndex, matches.length - 1) : -1;
+  const segments = useMemo(() => segmentTokens(tokens, matches, current), [current, matches, tokens]);
+
+  const stats = useMemo(() => textStats(statsText ?? value), [statsText, value]);
+  const warnings = useMemo(() => contextWarnings(stats.tokens), [stats.tokens]);
+
+  function syncScroll() {
+    if (!highlightRef.current || !inputRef.current) return;
+    highlightRef.current.scrollTop = inputRef.current.scrollTop;
+    highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+  }
+
+  // Selects the match and scrolls its line into view without taking focus from the find bar.
+  function reveal(index: number) {
+    const match = matches[index];
+    const textarea = inputRef.current;
+    setActiveIndex(index);
+    if (!match || !textarea) return;
+    textarea.setSelectionRange(match.start, match.end);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    const line = value.slice(0, match.start).split("\n").length - 1;
+    textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 2);
+    syncScroll();
+  }
+
+  function step(offset: number) {
+    if (matches.length === 0) return;
+    reveal((current + offset + matches.length) % matches.length);
+  }
+
+  function openFind() {
+    const textarea = inputRef.current;
+    const selected = textarea ? value.slice(textarea.selectionStart, textarea.selectionEnd) : "";
+    if (selected && !selected.includes("\n")) setQuery(selected);
+    setFindOpen(true);
+    setPreviewing(false);
+    requestAnimationFrame(() => findInputRef.current?.select());
+  }
+
+  function onEditorKeyDown(event: KeyboardEvent<HTMLTextAreaElement>) {
+    if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "f") {
+      event.preventDefault();
+      openFind();
+    }
+  }
+
+  function onFindKeyDown(event: KeyboardEvent<HTMLInputElement>) {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      step(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setFindOpen(false);
+      inputRef.current?.focus();
+    }
+  }
+
+  function replaceCurrent() {
+    const match = matches[current];
+    if (!match) return;
+    onChange(replaceMatches(value, [match], replacement, options.regex));
+  }
+
+  function replaceAll() {
+    if (matches.length === 0) return;
+    onChange(replaceMatches(value, matches, replacement, options.regex));
+    setActiveIndex(0);
+  }
+
+  const toggleOption = (key: keyof FindOptions) => setOptions((prev) => ({ ...prev, [key]: !prev[key] }));
+
+  return (
+    <div className="prompt-editor">
+      <div className="prompt-editor-toolbar">
+        <div className="row-gap">
+          <button type="button" className={previewing ? "ghost" : ""} onClick={() => setPreviewing(false)}>
+            {isPl ? "Edycja" : "Edit"}
+          </button>
+          <button type="button" className={previewing ? "" : "ghost"} onClick={() => setPreviewing(true)}>
+            {isPl ? "Podgląd Markdown" : "Markdown preview"}
+          </button>
+        </div>
+        <button type="button" className="ghost" onClick={() => (findOpen ? setFindOpen(false) : openFind())}>
+          {isPl ? "Znajdź i zamień" : "Find and replace"}
+        </button>
+      </div>
+
+      {findOpen ? (
+        <div className="find-bar">
+          <input
+            ref={findInputRef}
+            value={query}
+            placeholder={isPl ? "Znajdź" : "Find"}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={onFindKeyDown}
+          />
+          <input
+            value={replacement}
+            placeholder={isPl ? "Zamień na" : "Replace with"}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={onFindKeyDown}
+          />
+          <label className="checkbox-row" title={isPl ? "Rozróżniaj wielkość liter" : "Match case"}>
+            <input type="checkbox" checked={options.caseSensitive} onChange={() => toggleOption("caseSensitive")} />
+            Aa
+          </label>
+          <label className="checkbox-row" title={isPl ? "Całe słowa" : "Whole words"}>
+            <input type="checkbox" checked={options.wholeWord} onChange={() => toggleOption("wholeWord")} />
+            {isPl ? "Słowo" : "Word"}
+          </label>
+          <label className="checkbox-row" title={isPl ? "Wyrażenie regularne" : "Regular expression"}>
+            <input type="checkbox" checked={options.regex} onChange={() => toggleOption("regex")} />
+            .*
+          </label>
+          <span className="find-count">
+            {findError ? (isPl ? "Błędny wzorzec" : "Invalid pattern") : `${current + 1}/${matches.length}`}
+          </span>
+          <button type="button" className="ghost" disabled={matches.length === 0} onClick={() => step(-1)}>↑</button>
+          <button type="button" className="ghost" disabled={matches.length === 0} onClick={() => step(1)}>↓</button>
+          <button type="button" className="ghost" disabled={matches.length === 0} onClick={replaceCurrent}>
+            {isPl ? "Zamień" : "Replace"}
+          </button>
+          <button type="button" className="ghost" disabled={matches.length === 0} onClick={replaceAll}>
+            {isPl ? "Zamień wszystkie" : "Replace all"}
+          </button>
+        </div>
+      ) : null}
+
+      {previewing ? <MarkdownView text={value} /> : null}
+      {/* Hidden rather than unmounted while previewing, so the textarea keeps its undo history. */}
+      <div className="prompt-editor-body" hidden={previewing}>
+        <pre ref={highlightRef} className="prompt-editor-highlight" aria-hidden="true">
+          {segments.map((segment, index) => {
+            const classes = [segment.kind ? `tok-${segment.kind}` : "", segment.match ? `tok-match-${segment.match}` : ""]
+              .filter(Boolean)
+              .join(" ");
+            return classes ? <span key={index} className={classes}>{segment.text}</span> : segment.text;
+          })}
+          {/* A trailing newline needs content after it to take up a line, as it does in the textarea. */}
+          {" "}
+        </pre>
+        <textarea
+          ref={inputRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={onEditorKeyDown}
+          rows={rows}
+          required={required}
+          spellCheck
+        />
+      </div>
+
+      <div className="prompt-editor-stats">
+        <span>
+          {stats.characters} {isPl ? "znaków" : "characters"} · {stats.words} {isPl ? "słów" : "words"} · ≈{stats.tokens}{" "}
+          {isPl ? "tokenów" : "tokens"}
+        </span>
+        {warnings.map((warning) => (
+          <span key={warning.model.id} className={`context-warning ${warning.level}`}>
+            {warning.model.label}:{" "}
+            {warning.level === "over"
+              ? txt(language, "przekracza kontekst", "exceeds the context")
+              : `${Math.round(warning.usage * 100)}% ${txt(language, "kontekstu", "of context")}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
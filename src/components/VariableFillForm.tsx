@@ -0,0 +1,73 @@
+import { useState } from "react";
+import type { Language } from "../i18n";
+import type { Prompt, PromptVariable, VariableValues } from "../shared/model";
+import { renderTemplate } from "../shared/templates";
+
+export function initialVariableValues(variables: PromptVariable[], remembered: VariableValues): VariableValues {
+  const values: VariableValues = {};
+  for (const variable of variables) {
+    const last = remembered[variable.name];
+    const allowed = variable.options.length === 0 || (last !== undefined && variable.options.includes(last));
+    values[variable.name] = last !== undefined && allowed ? last : variable.defaultValue;
+  }
+  return values;
+}
+
+export function VariableFillForm({
+  prompt,
+  remembered,
+  onSubmit,
+  onCancel,
+  language,
+  submitLabel
+}: {
+  prompt: Prompt;
+  remembered: VariableValues;
+  onSubmit: (values: VariableValues) => void;
+  onCancel: () => void;
+  language: Language;
+  submitLabel?: string;
+}) {
+  const isPl = language === "pl";
+  const [values, setValues] = useState<VariableValues>(() => initialVariableValues(prompt.variables, remembered));
+
+  return (
+    <form
+      className="variable-form"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(values);
+      }}
+    >
+      <h3>{isPl ? "Uzupełnij zmienne" : "Fill in variables"}</h3>
+      {prompt.variables.map((variable, index) => (
+        <label key={variable.name}>
+          {variable.name}
+          {variable.options.length > 0 ? (
+            <select
+              autoFocus={index === 0}
+              value={values[variable.name] ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, [variable.name]: e.target.value }))}
+            >
+              {variable.options.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          ) : (
+            <textarea
+              autoFocus={index === 0}
+              rows={2}
+              value={values[variable.name] ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, [variable.name]: e.target.value }))}
+            />
+          )}
+        </label>
+      ))}
+      <pre>{renderTemplate(prompt.content, values)}</pre>
+      <div className="row-gap">
+        <button type="submit">{submitLabel ?? (isPl ? "Kopiuj uzupełniony" : "Copy filled")}</button>
+        <button type="button" className="ghost" onClick={onCancel}>{isPl ? "Anuluj" : "Cancel"}</button>
+      </div>
+    </form>
+  );
+}
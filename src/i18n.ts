@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { LANGUAGE_KEY, chromeApi, hasExtensionStorage } from "./shared/storage";
+
+export type Language = "pl" | "en";
+
+export function txt(language: Language, pl: string, en: string) {
+  return language === "pl" ? pl : en;
+}
+
+export function useLanguage() {
+  const [language, setLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    return saved === "en" ? "en" : "pl";
+  });
+
+  useEffect(() => {
+    let active = true;
+
+    void (async () => {
+      if (hasExtensionStorage) {
+        const result = await chromeApi.storage.local.get([LANGUAGE_KEY]);
+        if (!active) return;
+        const value = result?.[LANGUAGE_KEY];
+        const nextLanguage: Language = value === "en" ? "en" : "pl";
+        setLanguage(nextLanguage);
+      }
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(LANGUAGE_KEY, language);
+    if (hasExtensionStorage) {
+      void chromeApi.storage.local.set({ [LANGUAGE_KEY]: language });
+    }
+    document.documentElement.lang = language;
+  }, [language]);
+
+  return [language, setLanguage] as const;
+}
@@ -0,0 +1,11 @@
+import React from "react";
+import ReactDOM from "react-dom/client";
+import PromptPalette from "./PromptPalette";
+import "./styles.css";
+import "./popup.css";
+
+ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
+  <React.StrictMode>
+    <PromptPalette />
+  </React.StrictMode>
+);
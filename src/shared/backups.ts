@@ -0,0 +1,177 @@
+import { nowIso, uuid } from "./model";
+import type { Category, DbFile, Prompt } from "./model";
+import { readSessionJson, readStoredJson, removeStoredJson, writeSessionJson, writeStoredJson } from "./storage";
+
+export type BackupSchedule = "off" | "hourly" | "daily" | "onChange";
+
+export type BackupSettings = {
+  schedule: BackupSchedule;
+  // How many timestamped files and internal snapshots to keep.
+  retention: number;
+  // Encrypt backup files with the passphrase under BACKUP_PASSPHRASE_KEY; snapshots stay plain.
+  // Without a passphrase in this browser session, automatic backup files are skipped.
+  encrypt: boolean;
+};
+
+// Why a backup run wrote no file; reported back to a manual "Back up now".
+export type BackupSkipReason = "noData" | "invalidData" | "noPassphrase";
+
+export type SnapshotReason = "scheduled" | "change" | "manual" | "beforeRestore";
+
+export type LibrarySnapshot = {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  promptCount: number;
+  json: string;
+};
+
+export type SnapshotDiff = {
+  restored: Prompt[];
+  removed: Prompt[];
+  changed: Prompt[];
+  unchangedCount: number;
+  categoriesRestored: Category[];
+  categoriesRemoved: Category[];
+};
+
+export const BACKUP_SETTINGS_KEY = "prompter.backupSettings";
+export const SNAPSHOTS_KEY = "prompter.snapshots";
+// Session storage only: the passphrase never sits on disk next to the library it protects.
+export const BACKUP_PASSPHRASE_KEY = "prompter.backupPassphrase";
+export const BACKUP_DIR = "prompter_chrome";
+export const BACKUP_SCHEDULES: BackupSchedule[] = ["off", "hourly", "daily", "onChange"];
+export const MIN_BACKUP_RETENTION = 1;
+export const MAX_BACKUP_RETENTION = 100;
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = { schedule: "daily", retention: 10, encrypt: false };
+
+// Matches files written by backupFileName, in either path separator style.
+export const BACKUP_FILE_PATTERN = /prompter_chrome[\\/]prompts-\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.json$/;
+
+const SNAPSHOT_REASONS: SnapshotReason[] = ["scheduled", "change", "manual", "beforeRestore"];
+
+export function normalizeBackupSettings(input: unknown): BackupSettings {
+  const source = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const schedule = BACKUP_SCHEDULES.includes(source.schedule as BackupSchedule)
+    ? (source.schedule as BackupSchedule)
+    : DEFAULT_BACKUP_SETTINGS.schedule;
+  const retention =
+    typeof source.retention === "number" && Number.isFinite(source.retention)
+      ? Math.min(MAX_BACKUP_RETENTION, Math.max(MIN_BACKUP_RETENTION, Math.round(source.retention)))
+      : DEFAULT_BACKUP_SETTINGS.retention;
+  return { schedule, retention, encrypt: source.encrypt === true };
+}
+
+export async function loadBackupSettings(): Promise<BackupSettings> {
+  return normalizeBackupSettings(await readStoredJson(BACKUP_SETTINGS_KEY));
+}
+
+export async function saveBackupSettings(settings: BackupSettings): Promise<void> {
+  await writeStoredJson(BACKUP_SETTINGS_KEY, normalizeBackupSettings(settings));
+}
+
+export async function loadBackupPassphrase(): Promise<string> {
+  const value = await readSessionJson(BACKUP_PASSPHRASE_KEY);
+  return typeof value === "string" ? value : "";
+}
+
+export async function saveBackupPassphrase(passphrase: string): Promise<void> {
+  await writeSessionJson(BACKUP_PASSPHRASE_KEY, passphrase);
+}
+
+// Earlier versions kept the passphrase in chrome.storage.local; remove that plaintext copy.
+export async function dropStoredBackupPassphrase(): Promise<void> {
+  await removeStoredJson(BACKUP_PASSPHRASE_KEY);
+}
+
+function normalizeSnapshot(input: unknown): LibrarySnapshot | null {
+  if (!input || typeof input !== "object") return null;
+  const source = input as Record<string, unknown>;
+  if (typeof source.id !== "string" || typeof source.createdAt !== "string" || typeof source.json !== "string") {
+    return null;
+  }
+  return {
+    id: source.id,
+    createdAt: source.createdAt,
+    reason: SNAPSHOT_REASONS.includes(source.reason as SnapshotReason) ? (source.reason as SnapshotReason) : "manual",
+    promptCount: typeof source.promptCount === "number" ? source.promptCount : 0,
+    json: source.json
+  };
+}
+
+/** Newest first. */
+export async function listSnapshots(): Promise<LibrarySnapshot[]> {
+  const raw = await readStoredJson(SNAPSHOTS_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(normalizeSnapshot)
+    .filter((snapshot): snapshot is LibrarySnapshot => snapshot !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Stores the library JSON as the newest snapshot and drops the oldest beyond `retention`.
+ * Returns null without writing when the library is identical to the newest snapshot.
+ */
+export async function addSnapshot(
+  json: string,
+  reason: SnapshotReason,
+  retention: number
+): Promise<LibrarySnapshot | null> {
+  let parsed: { prompts?: unknown };
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const compact = JSON.stringify(parsed);
+
+  const snapshots = await listSnapshots();
+  if (snapshots[0]?.json === compact) return null;
+
+  const snapshot: LibrarySnapshot = {
+    id: uuid(),
+    createdAt: nowIso(),
+    reason,
+    promptCount: Array.isArray(parsed.prompts) ? parsed.prompts.length : 0,
+    json: compact
+  };
+  await writeStoredJson(SNAPSHOTS_KEY, [snapshot, ...snapshots].slice(0, Math.max(MIN_BACKUP_RETENTION, retention)));
+  return snapshot;
+}
+
+export function backupFileName(date: Date): string {
+  const stamp = date.toISOString().slice(0, 19).replace("T", "_").replace(/:/g, "-");
+  return `${BACKUP_DIR}/prompts-${stamp}.json`;
+}
+
+/** What restoring `snapshot` would do to `current`. */
+export function diffSnapshot(current: DbFile, snapshot: DbFile): SnapshotDiff {
+  const currentById = new Map(current.prompts.map((prompt) => [prompt.id, prompt]));
+  const snapshotIds = new Set(snapshot.prompts.map((prompt) => prompt.id));
+  const currentCategoryIds = new Set(current.categories.map((category) => category.id));
+  const snapshotCategoryIds = new Set(snapshot.categories.map((category) => category.id));
+
+  const restored: Prompt[] = [];
+  const changed: Prompt[] = [];
+  let unchangedCount = 0;
+  for (const prompt of snapshot.prompts) {
+    const existing = currentById.get(prompt.id);
+    if (!existing) {
+      restored.push(prompt);
+    } else if (existing.updatedAt !== prompt.updatedAt) {
+      changed.push(prompt);
+    } else {
+      unchangedCount += 1;
+    }
+  }
+
+  return {
+    restored,
+    removed: current.prompts.filter((prompt) => !snapshotIds.has(prompt.id)),
+    changed,
+    unchangedCount,
+    categoriesRestored: snapshot.categories.filter((category) => !currentCategoryIds.has(category.id)),
+    categoriesRemoved: current.categories.filter((category) => !snapshotCategoryIds.has(category.id))
+  };
+}
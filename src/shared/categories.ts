@@ -0,0 +1,158 @@
+import { UNCATEGORIZED_ID, nowIso, uuid } from "./model";
+import type { Category, DbFile } from "./model";
+import { moveToTrash } from "./trash";
+
+/*
+ * Category tree helpers. Categories form a forest through `parentId`; "Uncategorized" is always a
+ * root without children. Paths join names with PATH_SEPARATOR, which names may therefore not contain.
+ */
+
+export type CategoryTreeRow = {
+  category: Category;
+  depth: number;
+  hasChildren: boolean;
+};
+
+export type CategoryDeleteMode = "reparent" | "cascade";
+
+export const PATH_SEPARATOR = "/";
+
+export function splitCategoryPath(path: string): string[] {
+  return path
+    .split(PATH_SEPARATOR)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/** Root first; stops at missing parents and cycles so damaged data still yields a path. */
+export function categoryPath(categories: Category[], id: string): Category[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: Category[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export function categoryPathLabel(categories: Category[], id: string, separator = ` ${PATH_SEPARATOR} `): string {
+  return categoryPath(categories, id)
+    .map((category) => category.name)
+    .join(separator);
+}
+
+/** Every category id mapped to its full path label; cheaper than categoryPathLabel in loops. */
+export function categoryPathLabels(categories: Category[], separator = ` ${PATH_SEPARATOR} `): Map<string, string> {
+  return new Map(categories.map((category) => [category.id, categoryPathLabel(categories, category.id, separator)]));
+}
+
+/** The category itself and everything below it. */
+export function descendantIds(categories: Category[], id: string): Set<string> {
+  const result = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const category of categories) {
+      if (category.parentId && result.has(category.parentId) && !result.has(category.id)) {
+        result.add(category.id);
+        grew = true;
+      }
+    }
+  }
+  return result;
+}
+
+/** Depth-first rows in name order, "Uncategorized" first; what tree views and selects render. */
+export function flattenCategoryTree(categories: Category[], locale = "pl"): CategoryTreeRow[] {
+  const children = new Map<string | null, Category[]>();
+  const ids = new Set(categories.map((category) => category.id));
+  for (const category of categories) {
+    const parent = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    children.set(parent, [...(children.get(parent) ?? []), category]);
+  }
+
+  const rows: CategoryTreeRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const list = [...(children.get(parentId) ?? [])].sort((a, b) => {
+      if (a.id === UNCATEGORIZED_ID) return -1;
+      if (b.id === UNCATEGORIZED_ID) return 1;
+      return a.name.localeCompare(b.name, locale, { sensitivity: "base" });
+    });
+    for (const category of list) {
+      const hasChildren = (children.get(category.id)?.length ?? 0) > 0;
+      rows.push({ category, depth, hasChildren });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
+
+export function canMoveCategory(categories: Category[], id: string, parentId: string | null): boolean {
+  if (id === UNCATEGORIZED_ID || parentId === UNCATEGORIZED_ID) return false;
+  if (parentId === null) return true;
+  return !descendantIds(categories, id).has(parentId);
+}
+
+export function findChildByName(categories: Category[], parentId: string | null, name: string): Category | undefined {
+  const key = name.toLowerCase();
+  return categories.find((category) => category.parentId === parentId && category.name.toLowerCase() === key);
+}
+
+/**
+ * Resolves `path` level by level (names compared case-insensitively), creating missing levels.
+ * Returns the categories list with any additions and the id of the last level.
+ */
+export function ensureCategoryPath(
+  categories: Category[],
+  path: string[],
+  now = nowIso()
+): { categories: Category[]; id: string } {
+  let next = categories;
+  let parentId: string | null = null;
+  for (const name of path) {
+    const existing = findChildByName(next, parentId, name);
+    if (existing) {
+      parentId = existing.id;
+      continue;
+    }
+    const created: Category = { id: uuid(), name, parentId, createdAt: now };
+    next = [...next, created];
+    parentId = created.id;
+  }
+  return { categories: next, id: parentId ?? UNCATEGORIZED_ID };
+}
+
+/**
+ * "reparent" moves child categories and prompts up to the deleted category's parent (prompts of
+ * a root category go to Uncategorized). "cascade" deletes the whole subtree and moves its prompts
+ * to the trash.
+ */
+export function deleteCategoryFromDb(db: DbFile, id: string, mode: CategoryDeleteMode, now: string): DbFile {
+  const category = db.categories.find((c) => c.id === id);
+  if (!category || id === UNCATEGORIZED_ID) return db;
+
+  if (mode === "cascade") {
+    const removed = descendantIds(db.categories, id);
+    const trashed = moveToTrash(
+      db,
+      db.prompts.filter((p) => removed.has(p.categoryId)).map((p) => p.id),
+      now
+    );
+    return { ...trashed, categories: trashed.categories.filter((c) => !removed.has(c.id)) };
+  }
+
+  const parentId = category.parentId;
+  return {
+    ...db,
+    categories: db.categories
+      .filter((c) => c.id !== id)
+      .map((c) => (c.parentId === id ? { ...c, parentId } : c)),
+    prompts: db.prompts.map((p) =>
+      p.categoryId === id ? { ...p, categoryId: parentId ?? UNCATEGORIZED_ID, updatedAt: now } : p
+    )
+  };
+}
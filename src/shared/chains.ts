@@ -0,0 +1,79 @@
+import type { PageChainRun } from "./messages";
+import { uuid } from "./model";
+import type { ChainStep, DbFile, Prompt, PromptChain } from "./model";
+import { readSessionJson, removeSessionJson, writeSessionJson } from "./storage";
+
+// One session-storage entry per tab; cleared when the tab closes or the browser quits.
+const PAGE_CHAIN_RUN_PREFIX = "prompter.chainRun.";
+
+export type ChainDraft = {
+  id?: string;
+  title: string;
+  description: string;
+  steps: ChainStep[];
+};
+
+export type ResolvedChainStep = {
+  step: ChainStep;
+  // null when the prompt is in the trash; the step is skipped until it is restored.
+  prompt: Prompt | null;
+};
+
+export function newChainStep(promptId: string): ChainStep {
+  return { id: uuid(), promptId, note: "" };
+}
+
+/** Creates the chain when `draft.id` is unset, otherwise replaces the stored one. */
+export function saveChain(db: DbFile, draft: ChainDraft, now: string): DbFile {
+  const fields = {
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    steps: draft.steps.map((step) => ({ ...step, note: step.note.trim() }))
+  };
+  if (!draft.id) {
+    return { ...db, chains: [...db.chains, { id: uuid(), ...fields, createdAt: now, updatedAt: now }] };
+  }
+  return {
+    ...db,
+    chains: db.chains.map((chain) => (chain.id === draft.id ? { ...chain, ...fields, updatedAt: now } : chain))
+  };
+}
+
+export function deleteChain(db: DbFile, id: string): DbFile {
+  return { ...db, chains: db.chains.filter((chain) => chain.id !== id) };
+}
+
+export function resolveChainSteps(db: DbFile, chain: PromptChain): ResolvedChainStep[] {
+  const prompts = new Map(db.prompts.map((prompt) => [prompt.id, prompt]));
+  return chain.steps.map((step) => ({ step, prompt: prompts.get(step.promptId) ?? null }));
+}
+
+export function chainsUsingPrompt(db: DbFile, promptId: string): PromptChain[] {
+  return db.chains.filter((chain) => chain.steps.some((step) => step.promptId === promptId));
+}
+
+export function normalizePageChainRun(input: unknown): PageChainRun | null {
+  if (!input || typeof input !== "object") return null;
+  const source = input as Record<string, unknown>;
+  if (typeof source.chainId !== "string" || !Number.isInteger(source.step) || !Number.isInteger(source.total)) {
+    return null;
+  }
+  return {
+    chainId: source.chainId,
+    title: typeof source.title === "string" ? source.title : "",
+    step: Math.max(0, source.step as number),
+    total: Math.max(0, source.total as number)
+  };
+}
+
+export async function loadPageChainRun(tabId: number): Promise<PageChainRun | null> {
+  return normalizePageChainRun(await readSessionJson(`${PAGE_CHAIN_RUN_PREFIX}${tabId}`));
+}
+
+/** Null ends the tab's run. */
+export async function savePageChainRun(tabId: number, run: PageChainRun | null): Promise<void> {
+  const key = `${PAGE_CHAIN_RUN_PREFIX}${tabId}`;
+  const normalized = normalizePageChainRun(run);
+  if (normalized) await writeSessionJson(key, normalized);
+  else await removeSessionJson(key);
+}
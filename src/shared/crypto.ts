@@ -0,0 +1,111 @@
+/*
+ * Passphrase encryption for backup and export files. The envelope carries everything needed to
+ * decrypt it except the passphrase, so files stay readable if the defaults below change.
+ */
+
+export type EncryptedEnvelope = {
+  format: typeof ENVELOPE_FORMAT;
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+};
+
+export type CryptoErrorCode = "invalidEnvelope" | "wrongPassphrase";
+
+export class CryptoError extends Error {
+  code: CryptoErrorCode;
+
+  constructor(code: CryptoErrorCode, message: string) {
+    super(message);
+    this.name = "CryptoError";
+    this.code = code;
+  }
+}
+
+export const ENVELOPE_FORMAT = "prompter-encrypted";
+export const MIN_PASSPHRASE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey"
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (!value || typeof value !== "object") return false;
+  const source = value as Record<string, unknown>;
+  return source.format === ENVELOPE_FORMAT;
+}
+
+/** Returns the envelope as pretty-printed JSON, ready to be written to a file. */
+export async function encryptText(plain: string, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const cipherText = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plain));
+
+  const envelope: EncryptedEnvelope = {
+    format: ENVELOPE_FORMAT,
+    version: 1,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(cipherText))
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+export async function decryptText(envelope: EncryptedEnvelope, passphrase: string): Promise<string> {
+  if (
+    envelope.version !== 1 ||
+    envelope.kdf?.name !== "PBKDF2" ||
+    envelope.cipher?.name !== "AES-GCM" ||
+    typeof envelope.data !== "string"
+  ) {
+    throw new CryptoError("invalidEnvelope", "Unsupported encrypted file");
+  }
+
+  let key: CryptoKey;
+  let iv: Uint8Array<ArrayBuffer>;
+  let data: Uint8Array<ArrayBuffer>;
+  try {
+    key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    iv = fromBase64(envelope.cipher.iv);
+    data = fromBase64(envelope.data);
+  } catch {
+    throw new CryptoError("invalidEnvelope", "Encrypted file is damaged");
+  }
+
+  try {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, data);
+    return new TextDecoder().decode(plain);
+  } catch {
+    // AES-GCM cannot tell a wrong key from tampered data; the key is by far the likelier cause.
+    throw new CryptoError("wrongPassphrase", "Wrong passphrase");
+  }
+}
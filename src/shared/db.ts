@@ -0,0 +1,507 @@
+import {
+  DB_VERSION,
+  DEFAULT_UNCATEGORIZED_LABEL,
+  UNCATEGORIZED_ID,
+  normalizeTags,
+  nowIso,
+  uuid
+} from "./model";
+import type {
+  Category,
+  ChainStep,
+  DbErrorCode,
+  DbFile,
+  Prompt,
+  PromptChain,
+  PromptExample,
+  PromptSource,
+  Snippet,
+  TrashedPrompt
+} from "./model";
+import { findChildByName, flattenCategoryTree } from "./categories";
+import { keepLoserInHistory, normalizeRevisions } from "./revisions";
+import { normalizeSnippetName } from "./snippets";
+import { extractVariables } from "./templates";
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: LooseRecord) => LooseRecord;
+};
+
+// Stored data before it is normalized: any field may be missing or of the wrong type.
+export type LooseRecord = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is LooseRecord {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Entries of a stored array; migrations only add fields and leave the rest to normalizeDb.
+function looseRecords(value: unknown): LooseRecord[] {
+  return Array.isArray(value) ? value.map((entry) => (isRecord(entry) ? entry : {})) : [];
+}
+
+export class DbError extends Error {
+  code: DbErrorCode;
+
+  constructor(code: DbErrorCode, message: string) {
+    super(message);
+    this.name = "DbError";
+    this.code = code;
+  }
+}
+
+export function defaultDb(): DbFile {
+  return {
+    version: DB_VERSION,
+    categories: [{ id: UNCATEGORIZED_ID, name: DEFAULT_UNCATEGORIZED_LABEL, parentId: null, createdAt: nowIso() }],
+    prompts: [],
+    trash: [],
+    chains: [],
+    snippets: []
+  };
+}
+
+// Each step upgrades a DbFile from `version - 1` to `version`. Append new steps; never edit shipped ones.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Add template variables and revision history to prompts",
+    up: (db) => ({
+      ...db,
+      prompts: looseRecords(db.prompts).map((p) => ({
+        ...p,
+        variables: extractVariables(typeof p.content === "string" ? p.content.trim() : ""),
+        revisions: Array.isArray(p.revisions) ? p.revisions : []
+      }))
+    })
+  },
+  {
+    version: 3,
+    description: "Add capture provenance to prompts",
+    up: (db) => ({
+      ...db,
+      prompts: looseRecords(db.prompts).map((p) => ({ ...p, source: p.source ?? null }))
+    })
+  },
+  {
+    version: 4,
+    description: "Add captured conversation examples to prompts",
+    up: (db) => ({
+      ...db,
+      prompts: looseRecords(db.prompts).map((p) => ({
+        ...p,
+        examples: Array.isArray(p.examples) ? p.examples : []
+      }))
+    })
+  },
+  {
+    version: 5,
+    description: "Add trash for deleted prompts",
+    up: (db) => ({ ...db, trash: Array.isArray(db.trash) ? db.trash : [] })
+  },
+  {
+    version: 6,
+    description: "Add parent links to categories",
+    up: (db) => ({
+      ...db,
+      categories: looseRecords(db.categories).map((c) => ({ ...c, parentId: c.parentId ?? null }))
+    })
+  },
+  {
+    version: 7,
+    description: "Add use counts to prompts",
+    // Earlier uses were not counted; a prompt with lastUsedAt was used at least once.
+    up: (db) => ({
+      ...db,
+      prompts: looseRecords(db.prompts).map((p) => ({ ...p, useCount: p.useCount ?? (p.lastUsedAt ? 1 : 0) }))
+    })
+  },
+  {
+    version: 8,
+    description: "Add prompt chains",
+    up: (db) => ({ ...db, chains: Array.isArray(db.chains) ? db.chains : [] })
+  },
+  {
+    version: 9,
+    description: "Add snippets",
+    up: (db) => ({ ...db, snippets: Array.isArray(db.snippets) ? db.snippets : [] })
+  }
+];
+
+export function readDbVersion(input: unknown): number {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new DbError("invalid", "Library data must be an object");
+  }
+  const db = input as Record<string, unknown>;
+  if (!Array.isArray(db.categories) || !Array.isArray(db.prompts)) {
+    throw new DbError("invalid", "Library data must contain categories and prompts arrays");
+  }
+  if (db.version === undefined) return 1;
+  if (typeof db.version !== "number" || !Number.isInteger(db.version) || db.version < 1) {
+    throw new DbError("invalid", `Unknown library version: ${String(db.version)}`);
+  }
+  if (db.version > DB_VERSION) {
+    throw new DbError("unsupportedVersion", `Library version ${db.version} is newer than ${DB_VERSION}`);
+  }
+  return db.version;
+}
+
+export function migrateDb(input: unknown): { db: DbFile; fromVersion: number } {
+  const fromVersion = readDbVersion(input);
+  // readDbVersion has checked that the input is an object.
+  let current = input as LooseRecord;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      current = { ...migration.up(current), version: migration.version };
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new DbError("migrationFailed", `Migration to v${migration.version} failed: ${reason}`);
+    }
+  }
+
+  return { db: normalizeDb(current as unknown as DbFile), fromVersion };
+}
+
+export function parseDbJson(raw: string): DbFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new DbError("corrupt", "Library data is not valid JSON");
+  }
+  return migrateDb(parsed).db;
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizeSource(input: unknown): PromptSource | null {
+  if (!input || typeof input !== "object") return null;
+  const source = input as Partial<PromptSource>;
+  const site = readString(source.site);
+  if (!site) return null;
+  return {
+    site,
+    url: readString(source.url),
+    conversationTitle: readString(source.conversationTitle),
+    model: readString(source.model),
+    capturedAt: readString(source.capturedAt)
+  };
+}
+
+export function normalizeExamples(input: unknown): PromptExample[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((example: Partial<PromptExample> | null) => ({
+      input: readString(example?.input),
+      output: readString(example?.output)
+    }))
+    .filter((example) => example.input || example.output);
+}
+
+// Accepts anything shaped roughly like a DbFile (stored JSON, imports, quick-save writes) and returns a clean one.
+export function normalizeDb(input: DbFile): DbFile {
+  const categories: Partial<Category>[] = Array.isArray(input.categories) ? [...input.categories] : [];
+  if (!categories.some((c) => c?.id === UNCATEGORIZED_ID)) {
+    categories.push({ id: UNCATEGORIZED_ID, name: DEFAULT_UNCATEGORIZED_LABEL, parentId: null, createdAt: nowIso() });
+  }
+
+  const categoryMap = new Map<string, Category>();
+  for (const c of categories) {
+    const id = readString(c?.id);
+    if (!id || categoryMap.has(id)) continue;
+    categoryMap.set(id, {
+      id,
+      name: readString(c.name) || "Bez nazwy",
+      parentId: readString(c.parentId) || null,
+      createdAt: readString(c.createdAt) || nowIso()
+    });
+  }
+  normalizeParents(categoryMap);
+
+  const promptMap = new Map<string, Prompt>();
+  const prompts: Partial<Prompt>[] = Array.isArray(input.prompts) ? input.prompts : [];
+  for (const p of prompts) {
+    if (!p || typeof p !== "object") continue;
+    const id = readString(p.id) || uuid();
+    if (promptMap.has(id)) continue;
+    promptMap.set(id, normalizePrompt(p, id, categoryMap));
+  }
+
+  // A prompt is either live or in the trash; the live copy wins, e.g. after restoring a snapshot.
+  const trashMap = new Map<string, TrashedPrompt>();
+  const trash: Partial<TrashedPrompt>[] = Array.isArray(input.trash) ? input.trash : [];
+  for (const entry of trash) {
+    const p = entry?.prompt;
+    if (!p || typeof p !== "object") continue;
+    const id = readString(p.id) || uuid();
+    if (promptMap.has(id) || trashMap.has(id)) continue;
+    trashMap.set(id, { prompt: normalizePrompt(p, id, categoryMap), deletedAt: readString(entry.deletedAt) || nowIso() });
+  }
+
+  // Steps may point at trashed prompts (restoring brings them back); purged prompts drop out.
+  const knownPromptIds = new Set([...promptMap.keys(), ...trashMap.keys()]);
+  const chainMap = new Map<string, PromptChain>();
+  const chains: Partial<PromptChain>[] = Array.isArray(input.chains) ? input.chains : [];
+  for (const c of chains) {
+    if (!c || typeof c !== "object") continue;
+    const id = readString(c.id) || uuid();
+    if (chainMap.has(id)) continue;
+    chainMap.set(id, normalizeChain(c, id, knownPromptIds));
+  }
+
+  // Names are include keys, so they are cleaned up and made unique (ignoring case) in file order.
+  const snippetMap = new Map<string, Snippet>();
+  const snippetNames = new Set<string>();
+  const snippets: Partial<Snippet>[] = Array.isArray(input.snippets) ? input.snippets : [];
+  for (const s of snippets) {
+    if (!s || typeof s !== "object") continue;
+    const id = readString(s.id) || uuid();
+    if (snippetMap.has(id)) continue;
+    const baseName = normalizeSnippetName(readString(s.name));
+    let name = baseName;
+    for (let n = 2; snippetNames.has(name.toLowerCase()); n++) name = `${baseName}-${n}`;
+    snippetNames.add(name.toLowerCase());
+    const createdAt = readString(s.createdAt) || nowIso();
+    snippetMap.set(id, {
+      id,
+      name,
+      description: readString(s.description),
+      content: readString(s.content),
+      createdAt,
+      updatedAt: readString(s.updatedAt) || createdAt
+    });
+  }
+
+  return {
+    version: DB_VERSION,
+    categories: Array.from(categoryMap.values()),
+    prompts: Array.from(promptMap.values()),
+    trash: Array.from(trashMap.values()),
+    chains: Array.from(chainMap.values()),
+    snippets: Array.from(snippetMap.values())
+  };
+}
+
+function normalizeChain(c: Partial<PromptChain>, id: string, knownPromptIds: Set<string>): PromptChain {
+  const createdAt = readString(c.createdAt) || nowIso();
+  const steps: Partial<ChainStep>[] = Array.isArray(c.steps) ? c.steps : [];
+  return {
+    id,
+    title: readString(c.title) || "Nowy łańcuch",
+    description: readString(c.description),
+    steps: steps
+      .filter((step) => !!step && knownPromptIds.has(readString(step.promptId)))
+      .map((step) => ({ id: readString(step.id) || uuid(), promptId: readString(step.promptId), note: readString(step.note) })),
+    createdAt,
+    updatedAt: readString(c.updatedAt) || createdAt
+  };
+}
+
+// Drops parent links that point nowhere, at "Uncategorized" or from it, and breaks cycles at the first repeat.
+function normalizeParents(categoryMap: Map<string, Category>) {
+  for (const category of categoryMap.values()) {
+    const parentId = category.parentId;
+    if (
+      category.id === UNCATEGORIZED_ID ||
+      parentId === category.id ||
+      parentId === UNCATEGORIZED_ID ||
+      (parentId && !categoryMap.has(parentId))
+    ) {
+      category.parentId = null;
+    }
+  }
+  for (const category of categoryMap.values()) {
+    const seen = new Set([category.id]);
+    let parent = category.parentId ? categoryMap.get(category.parentId) : undefined;
+    while (parent) {
+      if (seen.has(parent.id)) {
+        category.parentId = null;
+        break;
+      }
+      seen.add(parent.id);
+      parent = parent.parentId ? categoryMap.get(parent.parentId) : undefined;
+    }
+  }
+}
+
+function normalizePrompt(p: Partial<Prompt>, id: string, categoryMap: Map<string, Category>): Prompt {
+  const tags = normalizeTags(Array.isArray(p.tags) ? p.tags.map(String) : []);
+  const content = readString(p.content);
+  const title = readString(p.title) || "Nowy prompt";
+  const createdAt = readString(p.createdAt) || nowIso();
+  const updatedAt = readString(p.updatedAt) || createdAt;
+  const categoryId = readString(p.categoryId);
+  const lastUsedAt = readString(p.lastUsedAt) || null;
+
+  return {
+    id,
+    title,
+    categoryId: categoryMap.has(categoryId) ? categoryId : UNCATEGORIZED_ID,
+    content,
+    tags,
+    variables: extractVariables(content),
+    favorite: !!p.favorite,
+    createdAt,
+    updatedAt,
+    lastUsedAt,
+    useCount: typeof p.useCount === "number" && Number.isFinite(p.useCount) ? Math.max(0, Math.floor(p.useCount)) : lastUsedAt ? 1 : 0,
+    revisions: normalizeRevisions(p.revisions, { title, content, tags, updatedAt }),
+    source: normalizeSource(p.source),
+    examples: normalizeExamples(p.examples)
+  };
+}
+
+/*
+ * Import classification, by id first and then by content:
+ * - identical: same id and same title, content and tags;
+ * - update: same id, the imported copy was edited later than the local one;
+ * - conflict: same id, the local copy is as new or newer, so importing would lose local edits;
+ * - duplicate: new id, but the content matches a local prompt or an earlier prompt in the file.
+ */
+export type ImportStatus = "new" | "duplicate" | "identical" | "update" | "conflict";
+
+export type ImportResolution = "mine" | "theirs" | "both";
+
+export type ImportAnalysis = {
+  status: ImportStatus;
+  // The local prompt with the same id, or the prompt a duplicate repeats.
+  match: Prompt | null;
+};
+
+export const DEFAULT_IMPORT_RESOLUTION: Record<"identical" | "update" | "conflict", ImportResolution> = {
+  identical: "mine",
+  update: "theirs",
+  conflict: "mine"
+};
+
+// Whitespace and case differences do not make a prompt different.
+export function contentKey(content: string): string {
+  return content.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function samePromptText(a: Prompt, b: Prompt): boolean {
+  return a.title === b.title && a.content === b.content && a.tags.join("\n") === b.tags.join("\n");
+}
+
+export function analyzeImport(current: DbFile, imported: DbFile): Map<string, ImportAnalysis> {
+  const byId = new Map(current.prompts.map((prompt) => [prompt.id, prompt]));
+  const byContent = new Map(current.prompts.map((prompt) => [contentKey(prompt.content), prompt]));
+  const result = new Map<string, ImportAnalysis>();
+
+  for (const prompt of imported.prompts) {
+    const existing = byId.get(prompt.id);
+    if (existing) {
+      const status = samePromptText(existing, prompt)
+        ? "identical"
+        : new Date(prompt.updatedAt) > new Date(existing.updatedAt)
+          ? "update"
+          : "conflict";
+      result.set(prompt.id, { status, match: existing });
+      continue;
+    }
+
+    const key = contentKey(prompt.content);
+    const duplicateOf = key ? byContent.get(key) : undefined;
+    result.set(prompt.id, duplicateOf ? { status: "duplicate", match: duplicateOf } : { status: "new", match: null });
+    if (key && !duplicateOf) byContent.set(key, prompt);
+  }
+  return result;
+}
+
+/**
+ * `resolutions` applies to imported prompts whose id already exists locally and defaults to
+ * "theirs". Taking theirs keeps the local text as a revision; keeping both imports a copy
+ * under a new id.
+ */
+export function mergeImported(
+  current: DbFile,
+  imported: DbFile,
+  resolutions: Record<string, ImportResolution> = {}
+): DbFile {
+  const next: DbFile = {
+    version: DB_VERSION,
+    categories: [...current.categories],
+    prompts: [...current.prompts],
+    trash: current.trash,
+    chains: [...current.chains],
+    snippets: [...current.snippets]
+  };
+
+  // Parents are visited before children, so an imported category is matched by id, then by name
+  // under its (already mapped) parent, i.e. by full path.
+  const categoryIdMap = new Map(next.categories.map((c) => [c.id, c.id]));
+  for (const { category: importedCategory } of flattenCategoryTree(imported.categories)) {
+    const importedId = importedCategory.id || uuid();
+
+    if (categoryIdMap.has(importedId)) {
+      categoryIdMap.set(importedId, importedId);
+      continue;
+    }
+
+    const parentId = importedCategory.parentId ? categoryIdMap.get(importedCategory.parentId) ?? null : null;
+    const existingByPath = findChildByName(next.categories, parentId, importedCategory.name);
+    if (existingByPath) {
+      categoryIdMap.set(importedId, existingByPath.id);
+      continue;
+    }
+
+    next.categories.push({ ...importedCategory, id: importedId, parentId });
+    categoryIdMap.set(importedId, importedId);
+  }
+
+  categoryIdMap.set(UNCATEGORIZED_ID, UNCATEGORIZED_ID);
+
+  const promptById = new Map(next.prompts.map((p) => [p.id, p]));
+  for (const importedPrompt of imported.prompts) {
+    const normalized: Prompt = {
+      ...importedPrompt,
+      id: importedPrompt.id || uuid(),
+      categoryId: categoryIdMap.get(importedPrompt.categoryId) ?? UNCATEGORIZED_ID,
+      tags: normalizeTags(importedPrompt.tags ?? [])
+    };
+
+    const existing = promptById.get(normalized.id);
+    const resolution = resolutions[normalized.id] ?? "theirs";
+    if (!existing) {
+      promptById.set(normalized.id, normalized);
+    } else if (resolution === "theirs") {
+      promptById.set(normalized.id, keepLoserInHistory(normalized, existing));
+    } else if (resolution === "both") {
+      const copy = { ...normalized, id: uuid() };
+      promptById.set(copy.id, copy);
+    }
+  }
+
+  next.prompts = Array.from(promptById.values());
+
+  // Chains keep their prompt ids; a chain that exists here is replaced only by a newer copy. A chain
+  // with a step whose prompt is in neither library is left out rather than imported without it.
+  const knownPromptIds = new Set([...next.prompts.map((p) => p.id), ...next.trash.map((entry) => entry.prompt.id)]);
+  const chainById = new Map(next.chains.map((c) => [c.id, c]));
+  for (const importedChain of imported.chains) {
+    if (!importedChain.steps.every((step) => knownPromptIds.has(step.promptId))) continue;
+    const existing = chainById.get(importedChain.id);
+    if (!existing || new Date(importedChain.updatedAt) > new Date(existing.updatedAt)) {
+      chainById.set(importedChain.id, importedChain);
+    }
+  }
+  next.chains = Array.from(chainById.values());
+
+  // Snippets are matched by id, then by name, since prompts refer to them by name.
+  for (const importedSnippet of imported.snippets) {
+    const key = importedSnippet.name.toLowerCase();
+    const index = next.snippets.findIndex((s) => s.id === importedSnippet.id || s.name.toLowerCase() === key);
+    if (index < 0) {
+      next.snippets.push(importedSnippet);
+    } else if (new Date(importedSnippet.updatedAt) > new Date(next.snippets[index].updatedAt)) {
+      next.snippets[index] = { ...importedSnippet, id: next.snippets[index].id };
+    }
+  }
+
+  return normalizeDb(next);
+}
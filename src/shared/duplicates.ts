@@ -0,0 +1,168 @@
+import type { Prompt } from "./model";
+import { foldText, tokenize } from "./search";
+
+/*
+ * Near-duplicate detection with word shingles: each prompt becomes the set of its 3-word
+ * sequences and similarity is the Jaccard index of two sets. Candidate pairs come from MinHash
+ * banding so the library is not compared pair by pair, then get an exact Jaccard check.
+ */
+
+export type DuplicateCluster = {
+  prompts: Prompt[];
+  // Lowest pairwise similarity that joined the cluster, 0..1.
+  similarity: number;
+};
+
+export type SimilarPrompt = {
+  prompt: Prompt;
+  similarity: number;
+};
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+export const MIN_DUPLICATE_THRESHOLD = 0.5;
+
+const SHINGLE_SIZE = 3;
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 4;
+const MINHASH_SEEDS = Array.from({ length: MINHASH_BANDS * MINHASH_ROWS }, (_, i) => Math.imul(i + 1, 0x9e3779b1));
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finalizer; cheap and mixes well enough to act as a family of hash functions.
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Cached per prompt object, like the search index.
+const shingleCache = new WeakMap<Prompt, Set<number>>();
+
+function shingles(prompt: Prompt): Set<number> {
+  const cached = shingleCache.get(prompt);
+  if (cached) return cached;
+  const result = shinglesOf(prompt.content);
+  shingleCache.set(prompt, result);
+  return result;
+}
+
+function shinglesOf(content: string): Set<number> {
+  const words = tokenize(foldText(content));
+  const result = new Set<number>();
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length > 0) result.add(hashString(words.join(" ")));
+    return result;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i += 1) {
+    result.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+  return result;
+}
+
+function jaccard(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const value of small) if (large.has(value)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+function minHash(set: Set<number>): number[] {
+  return MINHASH_SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const value of set) {
+      const h = mix(value, seed);
+      if (h < min) min = h;
+    }
+    return min;
+  });
+}
+
+/** Clusters of prompts whose content is at least `threshold` similar, largest first. */
+export function findDuplicateClusters(prompts: Prompt[], threshold = DEFAULT_DUPLICATE_THRESHOLD): DuplicateCluster[] {
+  const sets = prompts.map(shingles);
+  const buckets = new Map<string, number[]>();
+  sets.forEach((set, index) => {
+    if (set.size === 0) return;
+    const signature = minHash(set);
+    for (let band = 0; band < MINHASH_BANDS; band += 1) {
+      const key = `${band}:${signature.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  const parent = prompts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const clusterSimilarity = new Map<number, number>();
+  const checked = new Set<string>();
+
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2) continue;
+    for (let i = 0; i < bucket.length; i += 1) {
+      for (let j = i + 1; j < bucket.length; j += 1) {
+        const a = bucket[i];
+        const b = bucket[j];
+        const pairKey = `${a}:${b}`;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        const similarity = jaccard(sets[a], sets[b]);
+        if (similarity < threshold) continue;
+        const rootA = find(a);
+        const rootB = find(b);
+        const joined = Math.min(
+          similarity,
+          clusterSimilarity.get(rootA) ?? 1,
+          clusterSimilarity.get(rootB) ?? 1
+        );
+        if (rootA !== rootB) parent[rootB] = rootA;
+        clusterSimilarity.set(rootA, joined);
+      }
+    }
+  }
+
+  const groups = new Map<number, Prompt[]>();
+  prompts.forEach((prompt, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), prompt]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([root, group]) => ({
+      prompts: group.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      similarity: clusterSimilarity.get(root) ?? 1
+    }))
+    .sort((a, b) => b.prompts.length - a.prompts.length || b.similarity - a.similarity);
+}
+
+/** The most similar existing prompt to `content`, if any reaches `threshold`; used by quick-save. */
+export function findSimilarPrompt(
+  prompts: Prompt[],
+  content: string,
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): SimilarPrompt | null {
+  const target = shinglesOf(content);
+  let best: SimilarPrompt | null = null;
+  for (const prompt of prompts) {
+    const similarity = jaccard(target, shingles(prompt));
+    if (similarity >= threshold && (!best || similarity > best.similarity)) best = { prompt, similarity };
+  }
+  return best;
+}
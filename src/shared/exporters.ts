@@ -0,0 +1,139 @@
+import { DB_VERSION, UNCATEGORIZED_ID } from "./model";
+import type { Category, DbFile, Prompt } from "./model";
+import { PATH_SEPARATOR, categoryPath, categoryPathLabels, splitCategoryPath } from "./categories";
+import { snippetsUsedBy } from "./snippets";
+import { createZip } from "./zip";
+
+/*
+ * Export formats for sharing outside the extension. Markdown front-matter uses the keys that
+ * importMarkdownFiles reads, so an exported folder can be imported back. Categories are written
+ * as full paths ("Work/Email"), which the importers split back into nested categories.
+ */
+
+// `categories` maps ids to path labels, see categoryPathLabels.
+function categoryName(prompt: Prompt, categories: Map<string, string>, uncategorizedLabel: string): string {
+  if (prompt.categoryId === UNCATEGORIZED_ID) return uncategorizedLabel;
+  return categories.get(prompt.categoryId) ?? uncategorizedLabel;
+}
+
+// JSON strings are valid YAML double-quoted scalars.
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function slugify(value: string): string {
+  const slug = value
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/ł/g, "l")
+    .replace(/Ł/g, "L")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+  return slug.slice(0, 60) || "prompt";
+}
+
+/** Only the given prompts, with the categories and snippets they use; for JSON exports of a filtered view. */
+export function scopeDb(db: DbFile, promptIds: Set<string>): DbFile {
+  const prompts = db.prompts.filter((prompt) => promptIds.has(prompt.id));
+  const usedCategories = new Set(prompts.flatMap((prompt) => categoryPath(db.categories, prompt.categoryId).map((c) => c.id)));
+  return {
+    version: DB_VERSION,
+    categories: db.categories.filter((category) => category.id === UNCATEGORIZED_ID || usedCategories.has(category.id)),
+    prompts,
+    trash: [],
+    // Only chains that can run entirely on the exported prompts.
+    chains: db.chains.filter((chain) => chain.steps.every((step) => promptIds.has(step.promptId))),
+    snippets: snippetsUsedBy(prompts, db.snippets)
+  };
+}
+
+export function promptToMarkdown(prompt: Prompt, category: string): string {
+  const lines = [
+    "---",
+    `title: ${yamlString(prompt.title)}`,
+    `category: ${yamlString(category)}`,
+    `tags: [${prompt.tags.map(yamlString).join(", ")}]`,
+    `favorite: ${prompt.favorite}`,
+    `created: ${prompt.createdAt}`,
+    `updated: ${prompt.updatedAt}`
+  ];
+  if (prompt.lastUsedAt) lines.push(`lastUsed: ${prompt.lastUsedAt}`);
+  lines.push("---", "", prompt.content, "");
+  return lines.join("\n");
+}
+
+/** One Markdown file per prompt in a folder per category; subcategories are nested folders. */
+export function exportMarkdownZip(prompts: Prompt[], categories: Category[], uncategorizedLabel: string): Uint8Array<ArrayBuffer> {
+  const names = categoryPathLabels(categories, PATH_SEPARATOR);
+  const encoder = new TextEncoder();
+  const usedPaths = new Set<string>();
+
+  const entries = prompts.map((prompt) => {
+    const category = categoryName(prompt, names, uncategorizedLabel);
+    const folder = splitCategoryPath(category).map(slugify).join("/");
+    const base = `${folder}/${slugify(prompt.title)}`;
+    let path = `${base}.md`;
+    for (let n = 2; usedPaths.has(path); n += 1) path = `${base}-${n}.md`;
+    usedPaths.add(path);
+    return { path, data: encoder.encode(promptToMarkdown(prompt, category)) };
+  });
+
+  return createZip(entries);
+}
+
+// A fence longer than any backtick run in the content, so prompts containing code blocks survive.
+function fenceFor(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/** A single document: one section per prompt, grouped by category. */
+export function exportCombinedMarkdown(
+  prompts: Prompt[],
+  categories: Category[],
+  labels: { heading: string; uncategorized: string; tags: string }
+): string {
+  const names = categoryPathLabels(categories);
+  const groups = new Map<string, Prompt[]>();
+  for (const prompt of prompts) {
+    const name = categoryName(prompt, names, labels.uncategorized);
+    groups.set(name, [...(groups.get(name) ?? []), prompt]);
+  }
+
+  const out = [`# ${labels.heading}`, ""];
+  for (const [name, group] of groups) {
+    out.push(`## ${name}`, "");
+    for (const prompt of group) {
+      const fence = fenceFor(prompt.content);
+      out.push(`### ${prompt.title}${prompt.favorite ? " ⭐" : ""}`, "");
+      if (prompt.tags.length > 0) out.push(`${labels.tags}: ${prompt.tags.map((tag) => `\`${tag}\``).join(", ")}`, "");
+      out.push(fence, prompt.content, fence, "");
+    }
+  }
+  return out.join("\n");
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Columns match the CSV importer's header aliases. */
+export function exportCsv(prompts: Prompt[], categories: Category[], uncategorizedLabel: string): string {
+  const names = categoryPathLabels(categories, PATH_SEPARATOR);
+  const rows = [["title", "content", "tags", "category", "favorite", "createdAt", "updatedAt", "lastUsedAt"]];
+  for (const prompt of prompts) {
+    rows.push([
+      prompt.title,
+      prompt.content,
+      prompt.tags.join(", "),
+      categoryName(prompt, names, uncategorizedLabel),
+      String(prompt.favorite),
+      prompt.createdAt,
+      prompt.updatedAt,
+      prompt.lastUsedAt ?? ""
+    ]);
+  }
+  // The BOM makes spreadsheet apps read the file as UTF-8.
+  return `\uFEFF${rows.map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,417 @@
+import { ensureCategoryPath, splitCategoryPath } from "./categories";
+import { isRecord } from "./db";
+import { createPromptRecord } from "./library";
+import { DB_VERSION, UNCATEGORIZED_ID, nowIso, uuid } from "./model";
+import type { Category, DbFile, Prompt, PromptSource } from "./model";
+
+/*
+ * Converters from other tools' formats into a DbFile, so every import goes through the same
+ * preview and mergeImported path as our own JSON. Imported prompts always get fresh ids.
+ */
+
+export type CsvField = "title" | "content" | "tags" | "category" | "favorite";
+
+// Column index per field; -1 means "not mapped".
+export type CsvMapping = Record<CsvField, number>;
+
+export type CsvTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+type PromptSeed = {
+  title: string;
+  content: string;
+  tags?: string[];
+  category?: string;
+  favorite?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  source?: PromptSource | null;
+};
+
+export const CSV_FIELDS: CsvField[] = ["title", "content", "tags", "category", "favorite"];
+
+// Shorter user messages ("thanks", "continue") are rarely worth keeping as prompts.
+const MIN_CONVERSATION_PROMPT_LENGTH = 20;
+const TITLE_MAX_LENGTH = 72;
+
+const CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  title: ["title", "name", "tytul", "tytuł", "nazwa"],
+  content: ["content", "prompt", "text", "body", "tresc", "treść"],
+  tags: ["tags", "tag", "tagi", "labels"],
+  category: ["category", "categories", "folder", "collection", "kategoria"],
+  favorite: ["favorite", "favourite", "starred", "ulubiony", "ulubione"]
+};
+
+export function titleFromContent(content: string): string {
+  const firstLine = content.split("\n").find((line) => line.trim().length > 0)?.trim() ?? "";
+  const clean = firstLine.replace(/^#+\s*/, "");
+  return clean.length > TITLE_MAX_LENGTH ? `${clean.slice(0, TITLE_MAX_LENGTH)}...` : clean;
+}
+
+function splitTags(value: string): string[] {
+  return value
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function parseBoolean(value: string): boolean {
+  return ["true", "yes", "1", "tak", "x", "★"].includes(value.trim().toLowerCase());
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // Unix seconds (ChatGPT) vs. milliseconds.
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value === "string" && value.trim()) {
+    const time = Date.parse(value);
+    if (!Number.isNaN(time)) return new Date(time).toISOString();
+  }
+  return undefined;
+}
+
+// Category strings are paths: "Work/Email" becomes Email nested under Work.
+function buildDb(seeds: PromptSeed[]): DbFile {
+  let categories: Category[] = [];
+  const now = nowIso();
+
+  const prompts: Prompt[] = seeds
+    .filter((seed) => seed.content.trim())
+    .map((seed) => {
+      let categoryId = UNCATEGORIZED_ID;
+      const path = splitCategoryPath(seed.category ?? "");
+      if (path.length > 0) {
+        const resolved = ensureCategoryPath(categories, path, now);
+        categories = resolved.categories;
+        categoryId = resolved.id;
+      }
+
+      const createdAt = seed.createdAt ?? now;
+      const record = createPromptRecord(
+        {
+          id: uuid(),
+          title: seed.title.trim() || titleFromContent(seed.content) || "Prompt",
+          content: seed.content,
+          tags: seed.tags ?? [],
+          categoryId,
+          favorite: seed.favorite ?? false,
+          source: seed.source ?? null
+        },
+        createdAt
+      );
+      return { ...record, updatedAt: seed.updatedAt ?? createdAt };
+    });
+
+  return { version: DB_VERSION, categories, prompts, trash: [], chains: [], snippets: [] };
+}
+
+function parseYamlScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    // Double-quoted YAML escapes are close enough to JSON's; our own exports write JSON strings.
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+
+// Splits `a, "b, c", 'd'` on commas outside quotes.
+function splitInlineList(value: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < value.length; i += 1) {
+    const ch = value[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') {
+        current += ch + (value[i + 1] ?? "");
+        i += 1;
+        continue;
+      }
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ",") {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  items.push(current);
+  return items;
+}
+
+/**
+ * Reads the flat `key: value` subset of YAML that prompt files use: scalars, inline lists
+ * (`tags: [a, b]`) and block lists (`- a`). Nested maps are ignored.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), parseYamlScalar(item[1])];
+      continue;
+    }
+
+    const pair = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line);
+    if (!pair) continue;
+    const [, key, rawValue] = pair;
+    const value = rawValue.trim();
+    listKey = null;
+
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      data[key] = splitInlineList(value.slice(1, -1)).map(parseYamlScalar).filter(Boolean);
+    } else {
+      data[key] = parseYamlScalar(value);
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+function frontMatterString(data: Record<string, string | string[]>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+// `folder` is the file's directory path within a picked folder ("Work/Email"); it is the category fallback.
+export function importMarkdownFiles(files: Array<{ name: string; text: string; folder?: string }>): DbFile {
+  return buildDb(
+    files.map((file) => {
+      const { data, body } = parseFrontMatter(file.text);
+      let content = body.trim();
+      let title = frontMatterString(data, "title", "name");
+
+      // Without a front-matter title, a leading `# Heading` is the title rather than content.
+      const heading = /^#\s+(.+)\r?\n/.exec(content);
+      if (!title && heading) {
+        title = heading[1].trim();
+        content = content.slice(heading[0].length).trim();
+      }
+
+      const tags = data.tags ?? data.tag;
+      return {
+        title: title ?? file.name.replace(/\.(md|markdown)$/i, ""),
+        content,
+        tags: Array.isArray(tags) ? tags : typeof tags === "string" ? splitTags(tags) : [],
+        category: frontMatterString(data, "category", "folder", "collection") ?? file.folder,
+        favorite: parseBoolean(frontMatterString(data, "favorite", "favourite", "starred") ?? ""),
+        createdAt: toIsoDate(frontMatterString(data, "createdAt", "created", "date")),
+        updatedAt: toIsoDate(frontMatterString(data, "updatedAt", "updated"))
+      };
+    })
+  );
+}
+
+/** RFC 4180 parser; the delimiter (`,`, `;` or tab) is guessed from the first line. */
+export function parseCsv(text: string): CsvTable {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((cells) => cells.some((cell) => cell.trim()));
+  return { headers: (nonEmpty[0] ?? []).map((header) => header.trim()), rows: nonEmpty.slice(1) };
+}
+
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping = {} as CsvMapping;
+  for (const field of CSV_FIELDS) {
+    mapping[field] = normalized.findIndex((header) => CSV_HEADER_ALIASES[field].includes(header));
+  }
+  return mapping;
+}
+
+export function importCsv(table: CsvTable, mapping: CsvMapping): DbFile {
+  const cell = (row: string[], field: CsvField) => (mapping[field] >= 0 ? row[mapping[field]] ?? "" : "");
+  return buildDb(
+    table.rows.map((row) => ({
+      title: cell(row, "title"),
+      content: cell(row, "content"),
+      tags: splitTags(cell(row, "tags")),
+      category: cell(row, "category"),
+      favorite: parseBoolean(cell(row, "favorite"))
+    }))
+  );
+}
+
+type ConversationMessage = { text: string; createdAt?: string; model?: string };
+
+function conversationSeeds(
+  site: string,
+  conversation: { title: string; url: string; createdAt?: string },
+  messages: ConversationMessage[],
+  seen: Set<string>
+): PromptSeed[] {
+  const seeds: PromptSeed[] = [];
+  for (const message of messages) {
+    const content = message.text.trim();
+    if (content.length < MIN_CONVERSATION_PROMPT_LENGTH || seen.has(content)) continue;
+    seen.add(content);
+
+    const capturedAt = message.createdAt ?? conversation.createdAt ?? nowIso();
+    seeds.push({
+      title: titleFromContent(content),
+      content,
+      createdAt: capturedAt,
+      source: {
+        site,
+        url: conversation.url,
+        conversationTitle: conversation.title,
+        model: message.model ?? "",
+        capturedAt
+      }
+    });
+  }
+  return seeds;
+}
+
+export function isChatGptExport(value: unknown): value is unknown[] {
+  return Array.isArray(value) && isRecord(value[0]) && "mapping" in value[0];
+}
+
+export function isClaudeExport(value: unknown): value is unknown[] {
+  return Array.isArray(value) && isRecord(value[0]) && "chat_messages" in value[0];
+}
+
+function chatGptUserMessage(node: unknown): ConversationMessage | null {
+  const message = isRecord(node) ? node.message : null;
+  if (!isRecord(message) || !isRecord(message.author) || message.author.role !== "user") return null;
+  const parts = isRecord(message.content) && Array.isArray(message.content.parts) ? message.content.parts : [];
+  const model = isRecord(message.metadata) ? message.metadata.model_slug : undefined;
+  return {
+    text: parts.filter((part): part is string => typeof part === "string").join("\n"),
+    createdAt: toIsoDate(message.create_time),
+    model: typeof model === "string" ? model : undefined
+  };
+}
+
+/** ChatGPT `conversations.json`: every user message becomes a candidate prompt. */
+export function importChatGptExport(conversations: unknown[]): DbFile {
+  const seen = new Set<string>();
+  const seeds: PromptSeed[] = [];
+
+  for (const conversation of conversations) {
+    if (!isRecord(conversation)) continue;
+    const nodes = isRecord(conversation.mapping) ? Object.values(conversation.mapping) : [];
+    const messages = nodes
+      .map(chatGptUserMessage)
+      .filter((message): message is ConversationMessage => message !== null)
+      .sort((a, b) => (a.createdAt ?? "").localeCompare(b.createdAt ?? ""));
+
+    const id = conversation.conversation_id ?? conversation.id;
+    seeds.push(
+      ...conversationSeeds(
+        "chatgpt.com",
+        {
+          title: typeof conversation.title === "string" ? conversation.title : "",
+          url: typeof id === "string" ? `https://chatgpt.com/c/${id}` : "",
+          createdAt: toIsoDate(conversation.create_time)
+        },
+        messages,
+        seen
+      )
+    );
+  }
+
+  return buildDb(seeds);
+}
+
+function claudeHumanMessage(message: unknown): ConversationMessage | null {
+  if (!isRecord(message) || message.sender !== "human") return null;
+  const texts = (Array.isArray(message.content) ? message.content : [])
+    .filter(isRecord)
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .filter((text): text is string => typeof text === "string");
+  return {
+    text: texts.length > 0 ? texts.join("\n") : typeof message.text === "string" ? message.text : "",
+    createdAt: toIsoDate(message.created_at)
+  };
+}
+
+/** Claude data export `conversations.json`: every human message becomes a candidate prompt. */
+export function importClaudeExport(conversations: unknown[]): DbFile {
+  const seen = new Set<string>();
+  const seeds: PromptSeed[] = [];
+
+  for (const conversation of conversations) {
+    if (!isRecord(conversation)) continue;
+    const messages = (Array.isArray(conversation.chat_messages) ? conversation.chat_messages : [])
+      .map(claudeHumanMessage)
+      .filter((message): message is ConversationMessage => message !== null);
+
+    seeds.push(
+      ...conversationSeeds(
+        "claude.ai",
+        {
+          title: typeof conversation.name === "string" ? conversation.name : "",
+          url: typeof conversation.uuid === "string" ? `https://claude.ai/chat/${conversation.uuid}` : "",
+          createdAt: toIsoDate(conversation.created_at)
+        },
+        messages,
+        seen
+      )
+    );
+  }
+
+  return buildDb(seeds);
+}
@@ -0,0 +1,150 @@
+import { REVISION_FIELDS, UNCATEGORIZED_ID, normalizeTags, uuid } from "./model";
+import type { DbFile, Prompt, PromptExample, PromptSource } from "./model";
+import { appendRevision, makeRevision } from "./revisions";
+import { moveToTrash } from "./trash";
+import { extractVariables } from "./templates";
+
+export type NewPromptInput = {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  categoryId?: string;
+  favorite?: boolean;
+  source?: PromptSource | null;
+  examples?: PromptExample[];
+};
+
+export function createPromptRecord(input: NewPromptInput, now: string): Prompt {
+  const snapshot = { title: input.title.trim(), content: input.content.trim(), tags: normalizeTags(input.tags) };
+  return {
+    id: input.id,
+    ...snapshot,
+    categoryId: input.categoryId ?? UNCATEGORIZED_ID,
+    variables: extractVariables(snapshot.content),
+    favorite: input.favorite ?? false,
+    createdAt: now,
+    updatedAt: now,
+    lastUsedAt: null,
+    useCount: 0,
+    revisions: [makeRevision(snapshot, [...REVISION_FIELDS], now)],
+    source: input.source ?? null,
+    examples: input.examples ?? []
+  };
+}
+
+export function markPromptUsed(db: DbFile, id: string, now: string): DbFile {
+  return {
+    ...db,
+    prompts: db.prompts.map((p) => (p.id === id ? { ...p, lastUsedAt: now, useCount: p.useCount + 1, updatedAt: now } : p))
+  };
+}
+
+export function togglePromptFavorite(db: DbFile, id: string, now: string): DbFile {
+  return {
+    ...db,
+    prompts: db.prompts.map((p) => (p.id === id ? { ...p, favorite: !p.favorite, updatedAt: now } : p))
+  };
+}
+
+/**
+ * Folds `otherIds` into `keepId`: tags are combined, the earliest `createdAt` and latest
+ * `lastUsedAt` win, use counts add up, and captured examples are kept. The other prompts are removed
+ * and chain steps that used them point at `keepId` instead.
+ */
+export function mergePrompts(db: DbFile, keepId: string, otherIds: string[], now: string): DbFile {
+  const keep = db.prompts.find((p) => p.id === keepId);
+  const others = db.prompts.filter((p) => p.id !== keepId && otherIds.includes(p.id));
+  if (!keep || others.length === 0) return db;
+
+  const group = [keep, ...others];
+  const lastUsed = group
+    .map((p) => p.lastUsedAt)
+    .filter((value): value is string => !!value)
+    .sort()
+    .pop();
+  const merged: Prompt = {
+    ...keep,
+    tags: normalizeTags(group.flatMap((p) => p.tags)),
+    favorite: group.some((p) => p.favorite),
+    createdAt: group.map((p) => p.createdAt).sort()[0],
+    lastUsedAt: lastUsed ?? null,
+    useCount: group.reduce((sum, p) => sum + p.useCount, 0),
+    examples: group.flatMap((p) => p.examples),
+    updatedAt: now
+  };
+
+  const removed = new Set(others.map((p) => p.id));
+  return {
+    ...db,
+    prompts: db.prompts.filter((p) => !removed.has(p.id)).map((p) => (p.id === keepId ? merged : p)),
+    chains: db.chains.map((chain) =>
+      chain.steps.some((step) => removed.has(step.promptId))
+        ? {
+            ...chain,
+            steps: chain.steps.map((step) => (removed.has(step.promptId) ? { ...step, promptId: keepId } : step)),
+            updatedAt: now
+          }
+        : chain
+    )
+  };
+}
+
+export type BatchAction =
+  | { type: "move"; categoryId: string }
+  | { type: "addTags"; tags: string[] }
+  | { type: "removeTags"; tags: string[] }
+  | { type: "favorite"; favorite: boolean }
+  | { type: "duplicate"; titleSuffix: string }
+  | { type: "delete" };
+
+function withTags(prompt: Prompt, tags: string[], now: string): Prompt {
+  const next = normalizeTags(tags);
+  if (next.join("\n") === prompt.tags.join("\n")) return prompt;
+  return {
+    ...prompt,
+    tags: next,
+    updatedAt: now,
+    revisions: appendRevision(prompt.revisions, makeRevision({ ...prompt, tags: next }, ["tags"], now))
+  };
+}
+
+/** Applies one action to every prompt in `ids`; prompts the action does not change keep their `updatedAt`. */
+export function applyBatchAction(db: DbFile, ids: string[], action: BatchAction, now: string): DbFile {
+  const selected = new Set(ids);
+
+  if (action.type === "delete") return moveToTrash(db, ids, now);
+  if (action.type === "duplicate") {
+    const copies = db.prompts
+      .filter((p) => selected.has(p.id))
+      .map((p) => createPromptRecord({ ...p, id: uuid(), title: `${p.title} ${action.titleSuffix}` }, now));
+    return { ...db, prompts: [...db.prompts, ...copies] };
+  }
+
+  const lowered = action.type === "removeTags" ? new Set(action.tags.map((tag) => tag.toLowerCase())) : null;
+  return {
+    ...db,
+    prompts: db.prompts.map((p) => {
+      if (!selected.has(p.id)) return p;
+      if (action.type === "move") {
+        return p.categoryId === action.categoryId ? p : { ...p, categoryId: action.categoryId, updatedAt: now };
+      }
+      if (action.type === "favorite") {
+        return p.favorite === action.favorite ? p : { ...p, favorite: action.favorite, updatedAt: now };
+      }
+      if (action.type === "addTags") return withTags(p, [...p.tags, ...action.tags], now);
+      return withTags(p, p.tags.filter((tag) => !lowered?.has(tag.toLowerCase())), now);
+    })
+  };
+}
+
+// Favorites first, then most recently used, then alphabetical; used wherever prompts are picked quickly.
+export function comparePickerOrder(a: Prompt, b: Prompt) {
+  if (a.favorite !== b.favorite) return a.favorite ? -1 : 1;
+  if (a.lastUsedAt && b.lastUsedAt) {
+    return new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime();
+  }
+  if (a.lastUsedAt) return -1;
+  if (b.lastUsedAt) return 1;
+  return a.title.localeCompare(b.title, "pl", { sensitivity: "base" });
+}
@@ -0,0 +1,212 @@
+import { SNIPPET_INCLUDE_PATTERN } from "./snippets";
+import { TEMPLATE_VARIABLE_PATTERN } from "./templates";
+
+/*
+ * A small Markdown reader for prompt previews: headings, paragraphs, lists, quotes, fenced code and
+ * rules, with inline code, bold, italics, links, `{{variables}}` and `{{> includes}}`. It produces
+ * data, not HTML, so nothing from a prompt is ever inserted as markup.
+ */
+
+export type InlineKind = "text" | "code" | "strong" | "em" | "link" | "variable" | "include";
+
+export type InlineNode = {
+  kind: InlineKind;
+  text: string;
+  // Only for links; limited to http(s) and mailto.
+  href?: string;
+};
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; inline: InlineNode[] }
+  | { type: "paragraph"; lines: InlineNode[][] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] }
+  | { type: "quote"; lines: InlineNode[][] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "rule" };
+
+// Source highlighting for the editor: the text split into runs, each with an optional kind.
+export type SourceKind = InlineKind | "heading" | "marker" | "fence" | "rule";
+
+export type SourceToken = {
+  text: string;
+  kind: SourceKind | null;
+};
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+// The shared patterns have capture groups; the combined pattern below tells kinds apart by group.
+function nonCapturing(source: string): string {
+  return source.replace(/(^|[^\\])\((?!\?)/g, "$1(?:");
+}
+
+const INLINE_SOURCES = [
+  ["include", nonCapturing(SNIPPET_INCLUDE_PATTERN.source)],
+  ["variable", nonCapturing(TEMPLATE_VARIABLE_PATTERN.source)],
+  ["code", "`[^`\\n]+`"],
+  ["strong", "\\*\\*[^*\\n]+\\*\\*|__[^_\\n]+__"],
+  ["em", "\\*[^*\\s][^*\\n]*\\*|(?<![\\w])_[^_\\s][^_\\n]*_(?![\\w])"],
+  ["link", "\\[[^\\]\\n]+\\]\\([^)\\s]+\\)"]
+] as const;
+
+const INLINE_PATTERN = new RegExp(INLINE_SOURCES.map(([, source]) => `(${source})`).join("|"), "g");
+
+function safeHref(href: string): string | undefined {
+  return /^(https?:|mailto:)/i.test(href) ? href : undefined;
+}
+
+// Splits a line into inline runs; `raw` keeps the markup characters (for the editor overlay).
+function scanInline(line: string, raw: boolean): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let cursor = 0;
+  INLINE_PATTERN.lastIndex = 0;
+  for (let match = INLINE_PATTERN.exec(line); match; match = INLINE_PATTERN.exec(line)) {
+    if (match.index > cursor) nodes.push({ kind: "text", text: line.slice(cursor, match.index) });
+    const group = match.slice(1).findIndex((value) => value !== undefined);
+    const kind = INLINE_SOURCES[group][0];
+    const whole = match[0];
+    if (raw || kind === "variable" || kind === "include") {
+      nodes.push({ kind, text: whole });
+    } else if (kind === "link") {
+      const [, label, href] = whole.match(/^\[([^\]]+)\]\(([^)]+)\)$/) ?? [whole, whole, ""];
+      nodes.push({ kind, text: label, href: safeHref(href) });
+    } else {
+      const marker = kind === "strong" ? 2 : 1;
+      nodes.push({ kind, text: whole.slice(marker, -marker) });
+    }
+    cursor = match.index + whole.length;
+  }
+  if (cursor < line.length) nodes.push({ kind: "text", text: line.slice(cursor) });
+  return nodes;
+}
+
+export function parseInline(line: string): InlineNode[] {
+  return scanInline(line, false);
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) body.push(lines[index++]);
+      index++;
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") });
+      continue;
+    }
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, inline: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      index++;
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: InlineNode[][] = [];
+      let next: RegExpMatchArray | null = item;
+      while (next && /\d/.test(next[2]) === ordered) {
+        items.push(parseInline(next[3]));
+        index++;
+        next = lines[index]?.match(LIST_ITEM) ?? null;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: InlineNode[][] = [];
+      let next = line.match(QUOTE);
+      while (next) {
+        quoted.push(parseInline(next[1]));
+        index++;
+        next = lines[index]?.match(QUOTE) ?? null;
+      }
+      blocks.push({ type: "quote", lines: quoted });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block; line breaks are kept.
+    const paragraph: InlineNode[][] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !FENCE.test(lines[index]) &&
+      !HEADING.test(lines[index]) &&
+      !LIST_ITEM.test(lines[index]) &&
+      !QUOTE.test(lines[index]) &&
+      !RULE.test(lines[index])
+    ) {
+      paragraph.push(parseInline(lines[index]));
+      index++;
+    }
+    blocks.push({ type: "paragraph", lines: paragraph });
+  }
+
+  return blocks;
+}
+
+/** The text split into highlighted runs; joining every `text` gives the input back unchanged. */
+export function tokenizeSource(text: string): SourceToken[] {
+  const tokens: SourceToken[] = [];
+  let inFence: string | null = null;
+
+  text.split("\n").forEach((line, index) => {
+    if (index > 0) tokens.push({ text: "\n", kind: null });
+    const fence = line.match(FENCE);
+    if (inFence !== null) {
+      tokens.push({ text: line, kind: fence && line.trim().startsWith(inFence) ? "fence" : "code" });
+      if (fence && line.trim().startsWith(inFence)) inFence = null;
+      return;
+    }
+    if (fence) {
+      inFence = fence[1];
+      tokens.push({ text: line, kind: "fence" });
+      return;
+    }
+    if (HEADING.test(line)) {
+      tokens.push({ text: line, kind: "heading" });
+      return;
+    }
+    if (RULE.test(line)) {
+      tokens.push({ text: line, kind: "rule" });
+      return;
+    }
+
+    let rest = line;
+    const marker = line.match(LIST_ITEM) ?? line.match(QUOTE);
+    if (marker) {
+      const prefixLength = line.length - (marker[3] ?? marker[1]).length;
+      tokens.push({ text: line.slice(0, prefixLength), kind: "marker" });
+      rest = line.slice(prefixLength);
+    }
+    for (const node of scanInline(rest, true)) {
+      tokens.push({ text: node.text, kind: node.kind === "text" ? null : node.kind });
+    }
+  });
+
+  return tokens;
+}
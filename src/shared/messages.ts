@@ -0,0 +1,107 @@
+import type { BackupSkipReason } from "./backups";
+import type { PromptExample, PromptVariable, VariableValues } from "./model";
+
+// Bump when a message shape changes incompatibly; the background rejects versions it does not know.
+export const MESSAGE_VERSION = 1;
+
+export type QuickSavePayload = {
+  title: string;
+  content: string;
+  tags: string;
+  // Hostname of the page the prompt was captured on.
+  source?: string;
+  page?: {
+    url?: string;
+    conversationTitle?: string;
+    model?: string;
+  };
+  // Captured conversation turns, when saving from message buttons.
+  examples?: PromptExample[];
+  // Save even when a near-identical prompt exists; set after the user saw the warning.
+  allowDuplicate?: boolean;
+};
+
+export type SimilarPromptInfo = {
+  id: string;
+  title: string;
+  similarity: number;
+};
+
+export type PickerPrompt = {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  variables: PromptVariable[];
+  favorite: boolean;
+  lastUsedAt: string | null;
+};
+
+// A chain as the page widget runs it; steps whose prompt is in the trash are left out.
+export type PickerChain = {
+  id: string;
+  title: string;
+  steps: Array<{ promptId: string; note: string }>;
+};
+
+// Progress of a chain started from the page widget; the service worker keeps it per tab.
+export type PageChainRun = {
+  chainId: string;
+  title: string;
+  step: number;
+  total: number;
+};
+
+export type RuntimeMessage =
+  | { type: "SAVE_PROMPT_FROM_PAGE"; version: number; payload: QuickSavePayload }
+  | { type: "BACKUP_NOW"; version: number; json: string }
+  | { type: "LIST_PROMPTS"; version: number }
+  // Fills a prompt's variables with the same renderer as the app and popup, so the widget never
+  // keeps its own copy of the template syntax.
+  | { type: "RENDER_PROMPT"; version: number; id: string; values: VariableValues }
+  // Both act on the sender's tab, so pages never hold chain state themselves.
+  | { type: "GET_CHAIN_RUN"; version: number }
+  | { type: "SET_CHAIN_RUN"; version: number; run: PageChainRun | null }
+  // `site` and `values` describe the insertion for the usage log.
+  | { type: "MARK_PROMPT_USED"; version: number; id: string; site?: string; values?: VariableValues };
+
+export type RuntimeMessageType = RuntimeMessage["type"];
+
+type ResponseMap = {
+  SAVE_PROMPT_FROM_PAGE: { ok: true; saved: true } | { ok: true; saved: false; similar: SimilarPromptInfo };
+  BACKUP_NOW: { ok: true; saved: true } | { ok: true; saved: false; reason: BackupSkipReason };
+  LIST_PROMPTS: { ok: true; prompts: PickerPrompt[]; chains: PickerChain[] };
+  RENDER_PROMPT: { ok: true; text: string };
+  GET_CHAIN_RUN: { ok: true; run: PageChainRun | null };
+  SET_CHAIN_RUN: { ok: true };
+  MARK_PROMPT_USED: { ok: true };
+};
+
+export type ErrorResponse = { ok: false; error: string };
+
+// Sent with chrome.tabs.sendMessage to the content script of the active tab.
+export type TabMessage = { type: "INSERT_TEXT"; version: number; text: string };
+
+// `site` is the hostname the text was inserted on.
+export type TabMessageResponse = { ok: true; site: string } | ErrorResponse;
+
+export type MessageResponse<T extends RuntimeMessageType> = ResponseMap[T] | ErrorResponse;
+
+export function isRuntimeMessage(value: unknown): value is RuntimeMessage {
+  if (!value || typeof value !== "object") return false;
+  const message = value as Record<string, unknown>;
+  if (typeof message.version !== "number") return false;
+
+  if (message.type === "SAVE_PROMPT_FROM_PAGE") {
+    return !!message.payload && typeof message.payload === "object";
+  }
+  if (message.type === "BACKUP_NOW") return typeof message.json === "string";
+  if (message.type === "LIST_PROMPTS") return true;
+  if (message.type === "RENDER_PROMPT") {
+    return typeof message.id === "string" && !!message.values && typeof message.values === "object";
+  }
+  if (message.type === "GET_CHAIN_RUN") return true;
+  if (message.type === "SET_CHAIN_RUN") return message.run === null || (!!message.run && typeof message.run === "object");
+  if (message.type === "MARK_PROMPT_USED") return typeof message.id === "string";
+  return false;
+}
@@ -0,0 +1,128 @@
+export type Category = {
+  id: string;
+  name: string;
+  // null for top-level categories; "Uncategorized" is always top-level and never a parent.
+  parentId: string | null;
+  createdAt: string;
+};
+
+export type PromptVariable = {
+  name: string;
+  defaultValue: string;
+  options: string[];
+};
+
+export type RevisionField = "title" | "content" | "tags";
+
+export type PromptRevision = {
+  id: string;
+  createdAt: string;
+  changedFields: RevisionField[];
+  title: string;
+  content: string;
+  tags: string[];
+  restoredFrom: string | null;
+};
+
+// A captured prompt/response pair kept alongside the prompt, e.g. a conversation turn.
+export type PromptExample = {
+  input: string;
+  output: string;
+};
+
+// Where a quick-saved prompt came from; prompts created in the app have no source.
+export type PromptSource = {
+  site: string;
+  url: string;
+  conversationTitle: string;
+  model: string;
+  capturedAt: string;
+};
+
+export type Prompt = {
+  id: string;
+  title: string;
+  categoryId: string;
+  content: string;
+  tags: string[];
+  variables: PromptVariable[];
+  favorite: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt: string | null;
+  // Copies and inserts over the prompt's lifetime.
+  useCount: number;
+  revisions: PromptRevision[];
+  source: PromptSource | null;
+  examples: PromptExample[];
+};
+
+export type VariableValues = Record<string, string>;
+
+// A deleted prompt, kept until it is restored, purged by hand or older than the trash retention.
+export type TrashedPrompt = {
+  prompt: Prompt;
+  deletedAt: string;
+};
+
+export type ChainStep = {
+  id: string;
+  promptId: string;
+  // Shown next to the step while running the chain, e.g. what to check in the answer.
+  note: string;
+};
+
+// An ordered series of library prompts that is run step by step.
+export type PromptChain = {
+  id: string;
+  title: string;
+  description: string;
+  steps: ChainStep[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A reusable block that prompts (and other snippets) include with `{{> name}}`.
+export type Snippet = {
+  id: string;
+  // Include key; unique ignoring case.
+  name: string;
+  description: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DbFile = {
+  version: number;
+  categories: Category[];
+  prompts: Prompt[];
+  trash: TrashedPrompt[];
+  chains: PromptChain[];
+  snippets: Snippet[];
+};
+
+export type DbErrorCode = "corrupt" | "invalid" | "unsupportedVersion" | "migrationFailed";
+
+export const UNCATEGORIZED_ID = "uncategorized";
+export const DEFAULT_UNCATEGORIZED_LABEL = "Bez kategorii";
+export const DB_VERSION = 9;
+export const MAX_PROMPT_REVISIONS = 50;
+export const REVISION_FIELDS: RevisionField[] = ["title", "content", "tags"];
+
+export function nowIso() {
+  return new Date().toISOString();
+}
+
+export function uuid() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean))).sort((a, b) =>
+    a.localeCompare(b, "pl", { sensitivity: "base" })
+  );
+}
@@ -0,0 +1,158 @@
+import type { DbFile, Prompt, RevisionField } from "./model";
+import { appendRevision, makeRevision } from "./revisions";
+import type { TextRange } from "./search";
+import { extractVariables } from "./templates";
+
+export type FindOptions = {
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+};
+
+export type FindMatch = TextRange & {
+  // Capture groups of a regex match, for `$1` and `$<name>` in the replacement.
+  captures: Array<string | undefined>;
+  groups: Record<string, string | undefined>;
+};
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = { regex: false, caseSensitive: false, wholeWord: false };
+
+// Latin (with Polish and other accented letters), Greek and Cyrillic; enough for word boundaries
+// without the `u` flag, which would reject many patterns people type by habit (e.g. `\-`).
+const WORD_CHAR = "A-Za-z0-9_\\u00C0-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Null for an empty query; throws SyntaxError for an invalid regular expression. */
+export function compileFind(query: string, options: FindOptions): RegExp | null {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `(?<![${WORD_CHAR}])(?:${source})(?![${WORD_CHAR}])`;
+  return new RegExp(source, options.caseSensitive ? "g" : "gi");
+}
+
+/** Non-overlapping matches in order; empty matches are skipped. */
+export function findMatches(text: string, pattern: RegExp): FindMatch[] {
+  const matches: FindMatch[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0].length === 0) {
+      pattern.lastIndex += 1;
+      continue;
+    }
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      captures: match.slice(1),
+      groups: match.groups ?? {}
+    });
+  }
+  return matches;
+}
+
+/** Expands `$&`, `$1`-`$99`, `$<name>` and `$$` the way String.prototype.replace does. */
+export function expandReplacement(replacement: string, text: string, match: FindMatch, regex: boolean): string {
+  if (!regex) return replacement;
+  return replacement.replace(/\$(\$|&|<([^>]+)>|\d{1,2})/g, (whole, token: string, name: string | undefined) => {
+    if (token === "$") return "$";
+    if (token === "&") return text.slice(match.start, match.end);
+    if (name !== undefined) return match.groups[name] ?? "";
+    const index = Number(token);
+    return index >= 1 && index <= match.captures.length ? match.captures[index - 1] ?? "" : whole;
+  });
+}
+
+/** Replaces the given matches (from findMatches on the same text), leaving everything else as is. */
+export function replaceMatches(
+  text: string,
+  matches: FindMatch[],
+  replacement: string,
+  regex: boolean
+): string {
+  let result = "";
+  let cursor = 0;
+  for (const match of matches) {
+    result += text.slice(cursor, match.start) + expandReplacement(replacement, text, match, regex);
+    cursor = match.end;
+  }
+  return result + text.slice(cursor);
+}
+
+export type ReplaceField = "title" | "content";
+
+// One match in one field of one prompt; `key` identifies it between the preview and the apply.
+export type LibraryHit = FindMatch & {
+  key: string;
+  promptId: string;
+  field: ReplaceField;
+};
+
+export type LibraryReplaceResult = {
+  db: DbFile;
+  replacements: number;
+  promptCount: number;
+};
+
+export function hitKey(promptId: string, field: ReplaceField, start: number): string {
+  return `${promptId}:${field}:${start}`;
+}
+
+export function findLibraryHits(prompts: Prompt[], pattern: RegExp, fields: ReplaceField[]): LibraryHit[] {
+  return prompts.flatMap((prompt) =>
+    fields.flatMap((field) =>
+      findMatches(prompt[field], pattern).map((match) => ({
+        ...match,
+        key: hitKey(prompt.id, field, match.start),
+        promptId: prompt.id,
+        field
+      }))
+    )
+  );
+}
+
+/**
+ * Replaces the hits named in `keys`, re-finding them in `db` so hits that no longer match (the
+ * prompt changed since the preview) are skipped. Only prompts that end up different get a new
+ * `updatedAt` and a revision; a title or content that would become empty is left as it was.
+ */
+export function replaceInLibrary(
+  db: DbFile,
+  pattern: RegExp,
+  replacement: string,
+  regex: boolean,
+  keys: Set<string>,
+  now: string
+): LibraryReplaceResult {
+  let replacements = 0;
+  let promptCount = 0;
+
+  const prompts = db.prompts.map((prompt) => {
+    const next = { title: prompt.title, content: prompt.content };
+    const changedFields: RevisionField[] = [];
+    let applied = 0;
+    for (const field of ["title", "content"] as const) {
+      const chosen = findMatches(prompt[field], pattern).filter((match) => keys.has(hitKey(prompt.id, field, match.start)));
+      if (chosen.length === 0) continue;
+      const value = replaceMatches(prompt[field], chosen, replacement, regex);
+      if (value === prompt[field] || !value.trim()) continue;
+      next[field] = value;
+      changedFields.push(field);
+      applied += chosen.length;
+    }
+    if (changedFields.length === 0) return prompt;
+
+    replacements += applied;
+    promptCount += 1;
+    return {
+      ...prompt,
+      ...next,
+      variables: extractVariables(next.content),
+      updatedAt: now,
+      revisions: appendRevision(prompt.revisions, makeRevision({ ...prompt, ...next }, changedFields, now))
+    };
+  });
+
+  return { db: { ...db, prompts }, replacements, promptCount };
+}
@@ -0,0 +1,122 @@
+import { MAX_PROMPT_REVISIONS, REVISION_FIELDS, uuid } from "./model";
+import type { Prompt, PromptRevision, RevisionField } from "./model";
+
+export type DiffRow = {
+  kind: "same" | "removed" | "added" | "changed";
+  left: string | null;
+  right: string | null;
+};
+
+export function makeRevision(
+  snapshot: { title: string; content: string; tags: string[] },
+  changedFields: RevisionField[],
+  createdAt: string,
+  restoredFrom: string | null = null
+): PromptRevision {
+  return {
+    id: uuid(),
+    createdAt,
+    changedFields,
+    title: snapshot.title,
+    content: snapshot.content,
+    tags: [...snapshot.tags],
+    restoredFrom
+  };
+}
+
+export function changedRevisionFields(
+  before: { title: string; content: string; tags: string[] },
+  after: { title: string; content: string; tags: string[] }
+): RevisionField[] {
+  return REVISION_FIELDS.filter((field) =>
+    field === "tags" ? before.tags.join("\n") !== after.tags.join("\n") : before[field] !== after[field]
+  );
+}
+
+export function appendRevision(revisions: PromptRevision[], revision: PromptRevision): PromptRevision[] {
+  return [...revisions, revision].slice(-MAX_PROMPT_REVISIONS);
+}
+
+// The losing side of a conflict is kept as a restorable revision just before the winner's current one.
+export function keepLoserInHistory(winner: Prompt, loser: Prompt): Prompt {
+  const changedFields = changedRevisionFields(winner, loser);
+  if (changedFields.length === 0) return winner;
+  const current = winner.revisions[winner.revisions.length - 1];
+  const loserRevision = makeRevision(loser, changedFields, loser.updatedAt);
+  return {
+    ...winner,
+    revisions: current
+      ? [...appendRevision(winner.revisions.slice(0, -1), loserRevision), current]
+      : [loserRevision]
+  };
+}
+
+// Prompts saved before history existed get a single revision seeded from their current state.
+export function normalizeRevisions(
+  input: unknown,
+  current: { title: string; content: string; tags: string[]; updatedAt: string }
+): PromptRevision[] {
+  const revisions: PromptRevision[] = [];
+  for (const r of Array.isArray(input) ? (input as Partial<PromptRevision>[]) : []) {
+    if (!r || typeof r.content !== "string" || typeof r.createdAt !== "string") continue;
+    revisions.push({
+      id: typeof r.id === "string" && r.id ? r.id : uuid(),
+      createdAt: r.createdAt,
+      changedFields: (Array.isArray(r.changedFields) ? r.changedFields : []).filter((field) =>
+        REVISION_FIELDS.includes(field)
+      ),
+      title: typeof r.title === "string" ? r.title : current.title,
+      content: r.content,
+      tags: Array.isArray(r.tags) ? r.tags.map(String) : [],
+      restoredFrom: typeof r.restoredFrom === "string" ? r.restoredFrom : null
+    });
+  }
+
+  if (revisions.length === 0) {
+    revisions.push(makeRevision(current, [...REVISION_FIELDS], current.updatedAt));
+  }
+  return revisions.slice(-MAX_PROMPT_REVISIONS);
+}
+
+// Line-level LCS diff paired into side-by-side rows; prompts are small enough for the O(n*m) table.
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.max(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ kind: left !== null && right !== null ? "changed" : left !== null ? "removed" : "added", left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: "same", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+  return rows;
+}
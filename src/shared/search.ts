@@ -0,0 +1,329 @@
+import { categoryPathLabels } from "./categories";
+import type { Category, Prompt } from "./model";
+
+/*
+ * In-memory full-text index over the library. Text is folded (lowercase, no diacritics) one
+ * character at a time so folded strings keep the original offsets, which is what lets the
+ * highlighter map matches back onto the untouched title/content.
+ */
+
+export type SearchQuery = {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  tags: string[];
+  excludedTags: string[];
+  categories: string[];
+  excludedCategories: string[];
+  favorite: boolean | null;
+};
+
+export type SearchMatches = {
+  terms: Set<string>;
+  phrases: string[];
+};
+
+export type SearchHit = {
+  prompt: Prompt;
+  score: number;
+  matches: SearchMatches;
+};
+
+export type TextRange = {
+  start: number;
+  end: number;
+};
+
+type SearchField = "title" | "tags" | "category" | "content";
+
+type IndexedDoc = {
+  prompt: Prompt;
+  categoryName: string;
+  fields: Record<SearchField, string>;
+  terms: Map<string, number>;
+};
+
+export type SearchIndex = {
+  docs: IndexedDoc[];
+  postings: Map<string, Map<string, number>>;
+  vocabulary: string[];
+};
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, tags: 2.5, category: 1.5, content: 1 };
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTORS = [1, 0.55, 0.35];
+const PHRASE_BONUS = 2;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Letters that NFD does not decompose into base + combining mark.
+const EXTRA_FOLDS: Record<string, string> = { ł: "l", đ: "d", ø: "o", ı: "i", ħ: "h" };
+const foldedChars = new Map<string, string>();
+
+function foldChar(ch: string): string {
+  const cached = foldedChars.get(ch);
+  if (cached !== undefined) return cached;
+
+  const base = ch.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "");
+  const mapped = EXTRA_FOLDS[base] ?? base;
+  // Keep UTF-16 length unchanged so offsets in folded text match the original.
+  const folded = mapped.length === ch.length ? mapped : ch.length === 1 && mapped.length > 0 ? mapped[0] : ch;
+  foldedChars.set(ch, folded);
+  return folded;
+}
+
+export function foldText(text: string): string {
+  let out = "";
+  for (const ch of text) out += foldChar(ch);
+  return out;
+}
+
+export function tokenize(folded: string): string[] {
+  return folded.match(TOKEN_PATTERN) ?? [];
+}
+
+// Documents are re-tokenized only when their prompt object or category name changes.
+const docCache = new WeakMap<Prompt, IndexedDoc>();
+
+function indexDoc(prompt: Prompt, categoryName: string): IndexedDoc {
+  const cached = docCache.get(prompt);
+  if (cached && cached.categoryName === categoryName) return cached;
+
+  const fields: Record<SearchField, string> = {
+    title: foldText(prompt.title),
+    tags: foldText(prompt.tags.join("\n")),
+    category: foldText(categoryName),
+    content: foldText(prompt.content)
+  };
+  const terms = new Map<string, number>();
+  for (const field of SEARCH_FIELDS) {
+    for (const token of tokenize(fields[field])) {
+      terms.set(token, (terms.get(token) ?? 0) + FIELD_WEIGHTS[field]);
+    }
+  }
+
+  const doc = { prompt, categoryName, fields, terms };
+  docCache.set(prompt, doc);
+  return doc;
+}
+
+export function buildSearchIndex(prompts: Prompt[], categories: Category[]): SearchIndex {
+  // The full path is indexed, so `category:work` also matches prompts in subcategories of Work.
+  const categoryNames = categoryPathLabels(categories);
+  const docs = prompts.map((prompt) => indexDoc(prompt, categoryNames.get(prompt.categoryId) ?? ""));
+  const postings = new Map<string, Map<string, number>>();
+
+  for (const doc of docs) {
+    for (const [term, weight] of doc.terms) {
+      let posting = postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        postings.set(term, posting);
+      }
+      posting.set(doc.prompt.id, weight);
+    }
+  }
+
+  return { docs, postings, vocabulary: Array.from(postings.keys()) };
+}
+
+function parseFavorite(value: string): boolean | null {
+  if (["yes", "true", "1", "tak"].includes(value)) return true;
+  if (["no", "false", "0", "nie"].includes(value)) return false;
+  return null;
+}
+
+/**
+ * Supported syntax: plain words, "quoted phrases", `tag:x`, `cat:x`, `fav:yes|no` and a
+ * leading `-` to exclude any of them. Operator values may be quoted (`tag:"code review"`).
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    tags: [],
+    excludedTags: [],
+    categories: [],
+    excludedCategories: [],
+    favorite: null
+  };
+
+  const pattern = /(-)?(?:(tag|cat|fav):)?(?:"([^"]*)"?|(\S+))/giu;
+  for (const match of input.matchAll(pattern)) {
+    const [, minus, operator, quoted, bare] = match;
+    const negated = Boolean(minus);
+    const value = foldText((quoted ?? bare ?? "").trim());
+    if (!value) continue;
+
+    const op = operator?.toLowerCase();
+    if (op === "tag") {
+      (negated ? query.excludedTags : query.tags).push(value);
+    } else if (op === "cat") {
+      (negated ? query.excludedCategories : query.categories).push(value);
+    } else if (op === "fav") {
+      const favorite = parseFavorite(value);
+      if (favorite !== null) query.favorite = negated ? !favorite : favorite;
+    } else if (quoted !== undefined) {
+      (negated ? query.excludedPhrases : query.phrases).push(value);
+    } else {
+      (negated ? query.excludedTerms : query.terms).push(...tokenize(value));
+    }
+  }
+
+  return query;
+}
+
+export function hasTextQuery(query: SearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
+
+function allowedEdits(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+// Levenshtein distance that gives up (returns max + 1) once it cannot stay within `max`.
+function boundedDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Index terms a query term stands for: exact, prefix (typing in progress) and typo matches. */
+function expandTerm(index: SearchIndex, term: string): Array<[string, number]> {
+  const maxEdits = allowedEdits(term);
+  const expanded: Array<[string, number]> = [];
+
+  for (const candidate of index.vocabulary) {
+    if (candidate === term) {
+      expanded.push([candidate, 1]);
+    } else if (term.length >= 2 && candidate.startsWith(term)) {
+      expanded.push([candidate, PREFIX_FACTOR]);
+    } else if (maxEdits > 0) {
+      const distance = boundedDistance(term, candidate, maxEdits);
+      if (distance <= maxEdits) expanded.push([candidate, FUZZY_FACTORS[distance]]);
+    }
+  }
+  return expanded;
+}
+
+function passesFilters(doc: IndexedDoc, query: SearchQuery): boolean {
+  if (query.favorite !== null && doc.prompt.favorite !== query.favorite) return false;
+
+  const tags = doc.prompt.tags.map(foldText);
+  if (!query.tags.every((tag) => tags.some((candidate) => candidate.includes(tag)))) return false;
+  if (query.excludedTags.some((tag) => tags.some((candidate) => candidate.includes(tag)))) return false;
+
+  if (!query.categories.every((category) => doc.fields.category.includes(category))) return false;
+  if (query.excludedCategories.some((category) => doc.fields.category.includes(category))) return false;
+
+  if (query.excludedTerms.some((term) => doc.terms.has(term))) return false;
+  return !query.excludedPhrases.some((phrase) => SEARCH_FIELDS.some((field) => doc.fields[field].includes(phrase)));
+}
+
+/**
+ * Every word and phrase must match (AND). Results are ordered by score when the query has
+ * text; otherwise they keep the library order and score 0.
+ */
+export function searchPrompts(index: SearchIndex, query: SearchQuery): SearchHit[] {
+  const total = Math.max(index.docs.length, 1);
+  const scores = new Map<string, number>();
+  const matchedTerms = new Map<string, Set<string>>();
+  let candidates = index.docs.filter((doc) => passesFilters(doc, query));
+
+  for (const term of query.terms) {
+    const best = new Map<string, number>();
+    for (const [indexTerm, factor] of expandTerm(index, term)) {
+      const posting = index.postings.get(indexTerm);
+      if (!posting) continue;
+      const idf = Math.log(1 + total / posting.size);
+      for (const [id, weight] of posting) {
+        const value = factor * Math.log(1 + weight) * idf;
+        if (value > (best.get(id) ?? 0)) best.set(id, value);
+        if (!matchedTerms.has(id)) matchedTerms.set(id, new Set());
+        matchedTerms.get(id)?.add(indexTerm);
+      }
+    }
+
+    candidates = candidates.filter((doc) => best.has(doc.prompt.id));
+    for (const doc of candidates) {
+      scores.set(doc.prompt.id, (scores.get(doc.prompt.id) ?? 0) + (best.get(doc.prompt.id) ?? 0));
+    }
+  }
+
+  for (const phrase of query.phrases) {
+    candidates = candidates.filter((doc) => {
+      const fields = SEARCH_FIELDS.filter((field) => doc.fields[field].includes(phrase));
+      if (fields.length === 0) return false;
+      const bonus = PHRASE_BONUS * Math.max(...fields.map((field) => FIELD_WEIGHTS[field]));
+      scores.set(doc.prompt.id, (scores.get(doc.prompt.id) ?? 0) + bonus);
+      return true;
+    });
+  }
+
+  const hits = candidates.map((doc) => ({
+    prompt: doc.prompt,
+    score: scores.get(doc.prompt.id) ?? 0,
+    matches: { terms: matchedTerms.get(doc.prompt.id) ?? new Set<string>(), phrases: query.phrases }
+  }));
+
+  if (hasTextQuery(query)) hits.sort((a, b) => b.score - a.score);
+  return hits;
+}
+
+/** Sorted, non-overlapping ranges of `text` covered by matched terms or phrases. */
+export function highlightRanges(text: string, matches: SearchMatches | undefined): TextRange[] {
+  if (!matches || (matches.terms.size === 0 && matches.phrases.length === 0)) return [];
+
+  const folded = foldText(text);
+  const ranges: TextRange[] = [];
+  for (const token of folded.matchAll(TOKEN_PATTERN)) {
+    if (matches.terms.has(token[0])) {
+      ranges.push({ start: token.index ?? 0, end: (token.index ?? 0) + token[0].length });
+    }
+  }
+  for (const phrase of matches.phrases) {
+    let at = folded.indexOf(phrase);
+    while (at >= 0) {
+      ranges.push({ start: at, end: at + phrase.length });
+      at = folded.indexOf(phrase, at + phrase.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/** A window of about `length` characters around the first highlight. */
+export function snippetWindow(text: string, ranges: TextRange[], length: number): TextRange {
+  if (text.length <= length || ranges.length === 0) return { start: 0, end: Math.min(text.length, length) };
+
+  const start = Math.max(0, Math.min(ranges[0].start - Math.floor(length / 4), text.length - length));
+  return { start, end: start + length };
+}
@@ -0,0 +1,65 @@
+import { chromeApi } from "./storage";
+
+export type SitePreset = {
+  id: string;
+  label: string;
+  origins: string[];
+};
+
+// Sites granted in manifest.json `host_permissions`; always active.
+export const BUILT_IN_SITES: SitePreset[] = [
+  { id: "chatgpt", label: "ChatGPT", origins: ["https://chatgpt.com/*"] },
+  { id: "claude", label: "Claude", origins: ["https://claude.ai/*"] }
+];
+
+// Sites with a dedicated adapter in content-script.js that need an optional permission.
+export const OPTIONAL_SITES: SitePreset[] = [
+  { id: "gemini", label: "Gemini", origins: ["https://gemini.google.com/*"] },
+  { id: "perplexity", label: "Perplexity", origins: ["https://www.perplexity.ai/*"] },
+  { id: "mistral", label: "Mistral Le Chat", origins: ["https://chat.mistral.ai/*"] }
+];
+
+export const EXTRA_SITES_SCRIPT_ID = "prompter-extra-sites";
+
+const BUILT_IN_ORIGINS = new Set(BUILT_IN_SITES.flatMap((site) => site.origins));
+
+export const hasPermissionsApi = Boolean(chromeApi?.permissions?.request);
+
+/** Turns `example.com`, `https://example.com/path` or a match pattern into `https://host/*`. */
+export function toOriginPattern(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const withScheme = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme.replace("/*", "/"));
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    if (!url.hostname || url.hostname.includes("*")) return null;
+    return `${url.protocol}//${url.hostname}/*`;
+  } catch {
+    return null;
+  }
+}
+
+export function originLabel(origin: string): string {
+  return origin.replace(/^https?:\/\//, "").replace(/\/\*$/, "");
+}
+
+/** Origins granted at runtime, without the ones from the manifest. */
+export async function listGrantedOrigins(): Promise<string[]> {
+  if (!hasPermissionsApi) return [];
+  const granted = await chromeApi.permissions.getAll();
+  const origins: string[] = Array.isArray(granted?.origins) ? granted.origins : [];
+  return origins.filter((origin) => !BUILT_IN_ORIGINS.has(origin)).sort();
+}
+
+// Must run from a user gesture (a click in the options page).
+export async function requestSiteAccess(origins: string[]): Promise<boolean> {
+  if (!hasPermissionsApi) return false;
+  return Boolean(await chromeApi.permissions.request({ origins }));
+}
+
+export async function revokeSiteAccess(origins: string[]): Promise<boolean> {
+  if (!hasPermissionsApi) return false;
+  return Boolean(await chromeApi.permissions.remove({ origins }));
+}
@@ -0,0 +1,178 @@
+import { uuid } from "./model";
+import type { DbFile, Prompt, Snippet } from "./model";
+import { appendRevision, makeRevision } from "./revisions";
+import { extractVariables } from "./templates";
+
+/*
+ * Snippets are included by name with `{{> name}}` and expanded when a prompt is copied or
+ * inserted, so editing a snippet updates every prompt that uses it. Stored prompt content keeps
+ * the include tokens; only delivered text is expanded.
+ */
+
+export type SnippetDraft = {
+  id?: string;
+  name: string;
+  description: string;
+  content: string;
+};
+
+export type Expansion = {
+  text: string;
+  // Included names with no snippet; their tokens are left in the text.
+  missing: string[];
+  // The first include cycle found, e.g. ["a", "b", "a"]; the repeating token is left unexpanded.
+  cycle: string[] | null;
+};
+
+export type SnippetUsers = {
+  prompts: Prompt[];
+  snippets: Snippet[];
+};
+
+export const SNIPPET_INCLUDE_PATTERN = /\{\{>\s*([^{}]+?)\s*\}\}/g;
+export const SNIPPET_NAME_PATTERN = /^[\p{L}\p{N}_][\p{L}\p{N}_.-]*$/u;
+
+export function includeToken(name: string): string {
+  return `{{> ${name}}}`;
+}
+
+/** Turns free text into a valid include name, e.g. "JSON output" -> "JSON-output". */
+export function normalizeSnippetName(value: string): string {
+  const name = value
+    .trim()
+    .replace(/[^\p{L}\p{N}_.-]+/gu, "-")
+    .replace(/^[.-]+|-+$/g, "");
+  return name || "snippet";
+}
+
+/** Names included directly by `content`, in order of first use. */
+export function includedNames(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(SNIPPET_INCLUDE_PATTERN), (match) => match[1])));
+}
+
+function snippetsByName(snippets: Snippet[]): Map<string, Snippet> {
+  return new Map(snippets.map((snippet) => [snippet.name.toLowerCase(), snippet]));
+}
+
+// `stack` holds the names being expanded, outermost first; seeing one again is a cycle.
+function expand(content: string, byName: Map<string, Snippet>, stack: string[], result: Expansion): string {
+  return content.replace(SNIPPET_INCLUDE_PATTERN, (whole, name: string) => {
+    const snippet = byName.get(name.toLowerCase());
+    if (!snippet) {
+      if (!result.missing.includes(name)) result.missing.push(name);
+      return whole;
+    }
+    const key = snippet.name.toLowerCase();
+    const repeat = stack.findIndex((entry) => entry.toLowerCase() === key);
+    if (repeat >= 0) {
+      if (!result.cycle) result.cycle = [...stack.slice(repeat), snippet.name];
+      return whole;
+    }
+    return expand(snippet.content, byName, [...stack, snippet.name], result);
+  });
+}
+
+/** Replaces includes recursively; missing names and cycles are reported, never thrown. */
+export function expandIncludes(content: string, snippets: Snippet[]): Expansion {
+  const result: Expansion = { text: "", missing: [], cycle: null };
+  result.text = expand(content, snippetsByName(snippets), [], result);
+  return result;
+}
+
+/** The prompt as it is delivered: includes expanded and variables read from the expanded text. */
+export function expandPrompt(prompt: Prompt, snippets: Snippet[]): Prompt {
+  if (!includedNames(prompt.content).length) return prompt;
+  const content = expandIncludes(prompt.content, snippets).text;
+  return { ...prompt, content, variables: extractVariables(content) };
+}
+
+/** The cycle saving `draft` would create, or null; checked against the other stored snippets. */
+export function findSnippetCycle(snippets: Snippet[], draft: SnippetDraft): string[] | null {
+  const name = draft.name.trim();
+  const self: Snippet = { id: draft.id ?? "", name, description: "", content: draft.content, createdAt: "", updatedAt: "" };
+  const others = snippets.filter((snippet) => snippet.id !== draft.id);
+  const result: Expansion = { text: "", missing: [], cycle: null };
+  expand(draft.content, snippetsByName([...others, self]), [name], result);
+  return result.cycle;
+}
+
+/** Prompts and snippets that include `name`, directly or through other snippets. */
+export function snippetUsers(db: DbFile, name: string): SnippetUsers {
+  const reached = new Set([name.toLowerCase()]);
+  const snippets: Snippet[] = [];
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const snippet of db.snippets) {
+      if (reached.has(snippet.name.toLowerCase())) continue;
+      if (includedNames(snippet.content).some((included) => reached.has(included.toLowerCase()))) {
+        reached.add(snippet.name.toLowerCase());
+        snippets.push(snippet);
+        grew = true;
+      }
+    }
+  }
+  const prompts = db.prompts.filter((prompt) =>
+    includedNames(prompt.content).some((included) => reached.has(included.toLowerCase()))
+  );
+  return { prompts, snippets };
+}
+
+function renameIncludes(content: string, from: string, to: string): string {
+  const key = from.toLowerCase();
+  return content.replace(SNIPPET_INCLUDE_PATTERN, (whole, name: string) =>
+    name.toLowerCase() === key ? includeToken(to) : whole
+  );
+}
+
+/**
+ * Creates the snippet when `draft.id` is unset, otherwise replaces the stored one. A rename
+ * rewrites the includes in live prompts (recorded as a revision) and in other snippets.
+ */
+export function saveSnippet(db: DbFile, draft: SnippetDraft, now: string): DbFile {
+  const fields = { name: draft.name.trim(), description: draft.description.trim(), content: draft.content.trim() };
+  if (!draft.id) {
+    return { ...db, snippets: [...db.snippets, { id: uuid(), ...fields, createdAt: now, updatedAt: now }] };
+  }
+
+  const previous = db.snippets.find((snippet) => snippet.id === draft.id);
+  const renamedFrom = previous && previous.name !== fields.name ? previous.name : null;
+  const snippets = db.snippets.map((snippet) => {
+    if (snippet.id === draft.id) return { ...snippet, ...fields, updatedAt: now };
+    if (!renamedFrom) return snippet;
+    const content = renameIncludes(snippet.content, renamedFrom, fields.name);
+    return content === snippet.content ? snippet : { ...snippet, content, updatedAt: now };
+  });
+  if (!renamedFrom) return { ...db, snippets };
+
+  const prompts = db.prompts.map((prompt) => {
+    const content = renameIncludes(prompt.content, renamedFrom, fields.name);
+    if (content === prompt.content) return prompt;
+    return {
+      ...prompt,
+      content,
+      updatedAt: now,
+      revisions: appendRevision(prompt.revisions, makeRevision({ ...prompt, content }, ["content"], now))
+    };
+  });
+  return { ...db, snippets, prompts };
+}
+
+// Includes of a deleted snippet stay in the text and show up as missing.
+export function deleteSnippet(db: DbFile, id: string): DbFile {
+  return { ...db, snippets: db.snippets.filter((snippet) => snippet.id !== id) };
+}
+
+/** Snippets reachable from the given prompts; what a partial export has to carry along. */
+export function snippetsUsedBy(prompts: Prompt[], snippets: Snippet[]): Snippet[] {
+  const byName = snippetsByName(snippets);
+  const used = new Map<string, Snippet>();
+  const queue = prompts.flatMap((prompt) => includedNames(prompt.content));
+  while (queue.length > 0) {
+    const snippet = byName.get((queue.pop() ?? "").toLowerCase());
+    if (!snippet || used.has(snippet.id)) continue;
+    used.set(snippet.id, snippet);
+    queue.push(...includedNames(snippet.content));
+  }
+  return Array.from(used.values());
+}
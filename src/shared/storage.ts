@@ -0,0 +1,176 @@
+import { DbError, defaultDb, migrateDb, readDbVersion } from "./db";
+import { DB_VERSION, nowIso } from "./model";
+import type { DbFile, VariableValues } from "./model";
+
+export const STORAGE_KEY = "prompter.prompts.v1";
+export const PRE_MIGRATION_SNAPSHOT_PREFIX = "prompter.prompts.preMigration.v";
+export const CORRUPT_SNAPSHOT_KEY = "prompter.prompts.corrupt";
+export const QUICK_SAVE_ENABLED_KEY = "prompter.quickSaveEnabled";
+export const LANGUAGE_KEY = "prompter.language";
+export const VARIABLE_VALUES_KEY = "prompter.variableValues";
+export const chromeApi = (globalThis as { chrome?: any }).chrome;
+export const hasExtensionStorage = Boolean(chromeApi?.storage?.local);
+
+export async function readStoredDbRaw(): Promise<string | null> {
+  if (hasExtensionStorage) {
+    const result = await chromeApi.storage.local.get([STORAGE_KEY]);
+    const value = result?.[STORAGE_KEY];
+    if (typeof value === "string") return value;
+    if (value && typeof value === "object") return JSON.stringify(value);
+    return null;
+  }
+
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+export async function writeStoredDbRaw(json: string): Promise<void> {
+  if (hasExtensionStorage) {
+    await chromeApi.storage.local.set({ [STORAGE_KEY]: json });
+    return;
+  }
+
+  localStorage.setItem(STORAGE_KEY, json);
+}
+
+export async function writeSnapshot(key: string, raw: string): Promise<void> {
+  const snapshot = JSON.stringify({ createdAt: nowIso(), raw });
+  if (hasExtensionStorage) {
+    await chromeApi.storage.local.set({ [key]: snapshot });
+    return;
+  }
+
+  localStorage.setItem(key, snapshot);
+}
+
+// Throws DbError instead of falling back to an empty library, so unreadable data is never overwritten.
+export async function loadDb(): Promise<DbFile> {
+  const raw = await readStoredDbRaw();
+  if (!raw) {
+    const initial = defaultDb();
+    await writeStoredDbRaw(JSON.stringify(initial));
+    return initial;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new DbError("corrupt", "Library data is not valid JSON");
+  }
+
+  const fromVersion = readDbVersion(parsed);
+  if (fromVersion < DB_VERSION) {
+    await writeSnapshot(`${PRE_MIGRATION_SNAPSHOT_PREFIX}${fromVersion}`, raw);
+  }
+
+  const { db } = migrateDb(parsed);
+  await writeStoredDbRaw(JSON.stringify(db));
+  return db;
+}
+
+export async function loadVariableValues(): Promise<VariableValues> {
+  let raw: unknown = null;
+  if (hasExtensionStorage) {
+    const result = await chromeApi.storage.local.get([VARIABLE_VALUES_KEY]);
+    raw = result?.[VARIABLE_VALUES_KEY] ?? null;
+  } else {
+    try {
+      raw = JSON.parse(localStorage.getItem(VARIABLE_VALUES_KEY) || "null");
+    } catch {
+      raw = null;
+    }
+  }
+
+  if (!raw || typeof raw !== "object") return {};
+  const values: VariableValues = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === "string") values[name] = value;
+  }
+  return values;
+}
+
+export async function saveVariableValues(values: VariableValues): Promise<void> {
+  if (hasExtensionStorage) {
+    await chromeApi.storage.local.set({ [VARIABLE_VALUES_KEY]: values });
+    return;
+  }
+  localStorage.setItem(VARIABLE_VALUES_KEY, JSON.stringify(values));
+}
+
+// Plain JSON values (settings, snapshot lists) stored next to the library.
+export async function readStoredJson(key: string): Promise<unknown> {
+  if (hasExtensionStorage) {
+    const result = await chromeApi.storage.local.get([key]);
+    return result?.[key] ?? null;
+  }
+  try {
+    return JSON.parse(localStorage.getItem(key) || "null");
+  } catch {
+    return null;
+  }
+}
+
+export async function writeStoredJson(key: string, value: unknown): Promise<void> {
+  if (hasExtensionStorage) {
+    await chromeApi.storage.local.set({ [key]: value });
+    return;
+  }
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+export async function removeStoredJson(key: string): Promise<void> {
+  if (hasExtensionStorage) {
+    await chromeApi.storage.local.remove(key);
+    return;
+  }
+  localStorage.removeItem(key);
+}
+
+// Values that must not reach the disk: chrome.storage.session is held in memory and cleared when
+// the browser closes. It is only readable from extension pages and the service worker.
+export async function readSessionJson(key: string): Promise<unknown> {
+  if (chromeApi?.storage?.session) {
+    const result = await chromeApi.storage.session.get([key]);
+    return result?.[key] ?? null;
+  }
+  try {
+    return JSON.parse(sessionStorage.getItem(key) || "null");
+  } catch {
+    return null;
+  }
+}
+
+export async function writeSessionJson(key: string, value: unknown): Promise<void> {
+  if (chromeApi?.storage?.session) {
+    await chromeApi.storage.session.set({ [key]: value });
+    return;
+  }
+  sessionStorage.setItem(key, JSON.stringify(value));
+}
+
+export async function removeSessionJson(key: string): Promise<void> {
+  if (chromeApi?.storage?.session) {
+    await chromeApi.storage.session.remove(key);
+    return;
+  }
+  sessionStorage.removeItem(key);
+}
+
+// Calls back with the new raw DB JSON whenever another context (tab, service worker) writes it.
+export function subscribeToStoredDb(onChange: (raw: string | null) => void): () => void {
+  if (hasExtensionStorage && chromeApi.storage.onChanged) {
+    const listener = (changes: Record<string, { newValue?: unknown }>, area: string) => {
+      if (area !== "local" || !changes[STORAGE_KEY]) return;
+      const value = changes[STORAGE_KEY].newValue;
+      onChange(typeof value === "string" ? value : value ? JSON.stringify(value) : null);
+    };
+    chromeApi.storage.onChanged.addListener(listener);
+    return () => chromeApi.storage.onChanged.removeListener(listener);
+  }
+
+  const listener = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) onChange(event.newValue);
+  };
+  window.addEventListener("storage", listener);
+  return () => window.removeEventListener("storage", listener);
+}
@@ -0,0 +1,150 @@
+import { normalizeDb } from "./db";
+import type { Category, DbFile, Prompt, TrashedPrompt } from "./model";
+import { keepLoserInHistory } from "./revisions";
+
+export type SyncResult = {
+  db: DbFile;
+  mergedCount: number;
+  conflicts: Prompt[];
+};
+
+function promptChanged(before: Prompt | undefined, after: Prompt) {
+  return !before || before.updatedAt !== after.updatedAt;
+}
+
+type Versioned = { id: string; updatedAt: string };
+
+function recordChanged(before: Versioned | undefined, after: Versioned) {
+  return !before || before.updatedAt !== after.updatedAt;
+}
+
+// For chains and snippets: a side's edit wins over the other side's untouched copy or deletion;
+// two edits go to the newer one.
+function mergeRecords<T extends Versioned>(base: T[], local: T[], remote: T[]): T[] {
+  const baseById = new Map(base.map((r) => [r.id, r]));
+  const localById = new Map(local.map((r) => [r.id, r]));
+  const remoteById = new Map(remote.map((r) => [r.id, r]));
+  const merged: T[] = [];
+  for (const remoteRecord of remote) {
+    const localRecord = localById.get(remoteRecord.id);
+    const baseRecord = baseById.get(remoteRecord.id);
+    if (!localRecord) {
+      if (recordChanged(baseRecord, remoteRecord)) merged.push(remoteRecord);
+    } else if (!recordChanged(baseRecord, remoteRecord)) {
+      merged.push(localRecord);
+    } else if (!recordChanged(baseRecord, localRecord)) {
+      merged.push(remoteRecord);
+    } else {
+      merged.push(new Date(remoteRecord.updatedAt) > new Date(localRecord.updatedAt) ? remoteRecord : localRecord);
+    }
+  }
+  for (const localRecord of local) {
+    if (!remoteById.has(localRecord.id) && recordChanged(baseById.get(localRecord.id), localRecord)) merged.push(localRecord);
+  }
+  return merged;
+}
+
+function categoryChanged(before: Category | undefined, after: Category) {
+  return !before || before.name !== after.name || before.parentId !== after.parentId;
+}
+
+/**
+ * Three-way merge of an external storage write into local state.
+ * `base` is the last DB this tab knows storage held, `local` is the tab's current state and
+ * `remote` is what another writer (quick-save, another tab) just stored. Prompts are merged
+ * one by one; when both sides edited the same prompt the newer `updatedAt` wins and the
+ * prompt is reported as a conflict.
+ */
+export function mergeExternalChange(base: DbFile, local: DbFile, remote: DbFile): SyncResult {
+  const baseById = new Map(base.prompts.map((p) => [p.id, p]));
+  const localById = new Map(local.prompts.map((p) => [p.id, p]));
+  const remoteById = new Map(remote.prompts.map((p) => [p.id, p]));
+
+  const prompts: Prompt[] = [];
+  const conflicts: Prompt[] = [];
+  let mergedCount = 0;
+
+  for (const localPrompt of local.prompts) {
+    const basePrompt = baseById.get(localPrompt.id);
+    const remotePrompt = remoteById.get(localPrompt.id);
+    const localEdited = promptChanged(basePrompt, localPrompt);
+
+    if (!remotePrompt) {
+      // Deleted elsewhere: honour it unless this tab edited the prompt meanwhile.
+      if (!basePrompt || localEdited) {
+        prompts.push(localPrompt);
+        if (basePrompt) conflicts.push(localPrompt);
+      } else {
+        mergedCount++;
+      }
+      continue;
+    }
+
+    const remoteEdited = promptChanged(basePrompt, remotePrompt);
+    if (!remoteEdited) {
+      prompts.push(localPrompt);
+    } else if (!localEdited) {
+      prompts.push(remotePrompt);
+      mergedCount++;
+    } else if (localPrompt.updatedAt === remotePrompt.updatedAt) {
+      prompts.push(localPrompt);
+    } else {
+      const remoteWins = new Date(remotePrompt.updatedAt) > new Date(localPrompt.updatedAt);
+      const winner = remoteWins
+        ? keepLoserInHistory(remotePrompt, localPrompt)
+        : keepLoserInHistory(localPrompt, remotePrompt);
+      prompts.push(winner);
+      conflicts.push(winner);
+    }
+  }
+
+  for (const remotePrompt of remote.prompts) {
+    if (localById.has(remotePrompt.id)) continue;
+    const basePrompt = baseById.get(remotePrompt.id);
+    if (!basePrompt) {
+      prompts.push(remotePrompt);
+      mergedCount++;
+    } else if (promptChanged(basePrompt, remotePrompt)) {
+      // Deleted here but edited elsewhere: keep the edit.
+      prompts.push(remotePrompt);
+      conflicts.push(remotePrompt);
+    }
+  }
+
+  const baseCategories = new Map(base.categories.map((c) => [c.id, c]));
+  const localCategories = new Map(local.categories.map((c) => [c.id, c]));
+  const categories: Category[] = [];
+  for (const remoteCategory of remote.categories) {
+    const localCategory = localCategories.get(remoteCategory.id);
+    const baseCategory = baseCategories.get(remoteCategory.id);
+    if (!localCategory) {
+      if (!baseCategory || categoryChanged(baseCategory, remoteCategory)) categories.push(remoteCategory);
+      continue;
+    }
+    categories.push(categoryChanged(baseCategory, localCategory) ? localCategory : remoteCategory);
+  }
+  for (const localCategory of local.categories) {
+    if (!baseCategories.has(localCategory.id) && !categories.some((c) => c.id === localCategory.id)) {
+      categories.push(localCategory);
+    }
+  }
+
+  // Trash entries are three-way merged by prompt id: an entry survives unless one side removed it
+  // (restored or purged) since `base`. Entries for prompts that are live again are dropped by normalizeDb.
+  const baseTrash = new Set(base.trash.map((entry) => entry.prompt.id));
+  const localTrash = new Set(local.trash.map((entry) => entry.prompt.id));
+  const remoteTrash = new Set(remote.trash.map((entry) => entry.prompt.id));
+  const trash: TrashedPrompt[] = [
+    ...remote.trash.filter((entry) => localTrash.has(entry.prompt.id) || !baseTrash.has(entry.prompt.id)),
+    ...local.trash.filter((entry) => !remoteTrash.has(entry.prompt.id) && !baseTrash.has(entry.prompt.id))
+  ];
+
+  const chains = mergeRecords(base.chains, local.chains, remote.chains);
+  const snippets = mergeRecords(base.snippets, local.snippets, remote.snippets);
+
+  return {
+    db: normalizeDb({ ...local, categories, prompts, trash, chains, snippets }),
+    mergedCount,
+    conflicts
+  };
+}
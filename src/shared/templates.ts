@@ -0,0 +1,39 @@
+import type { PromptVariable, VariableValues } from "./model";
+
+export const TEMPLATE_VARIABLE_PATTERN = /\{\{([^{}]+)\}\}/g;
+export const VARIABLE_NAME_PATTERN = /^[\p{L}\p{N}_][\p{L}\p{N}_ .-]*$/u;
+
+// Supported forms: `{{name}}`, `{{name=default}}` and `{{name|first|second}}` (first option is the default).
+export function parseVariableToken(token: string): PromptVariable | null {
+  const pipeIndex = token.indexOf("|");
+  const eqIndex = token.indexOf("=");
+
+  if (pipeIndex >= 0) {
+    const [name, ...rest] = token.split("|");
+    const options = Array.from(new Set(rest.map((option) => option.trim()).filter(Boolean)));
+    const trimmed = name.trim();
+    if (!VARIABLE_NAME_PATTERN.test(trimmed)) return null;
+    return { name: trimmed, defaultValue: options[0] ?? "", options };
+  }
+
+  const name = (eqIndex >= 0 ? token.slice(0, eqIndex) : token).trim();
+  if (!VARIABLE_NAME_PATTERN.test(name)) return null;
+  return { name, defaultValue: eqIndex >= 0 ? token.slice(eqIndex + 1).trim() : "", options: [] };
+}
+
+export function extractVariables(content: string): PromptVariable[] {
+  const byName = new Map<string, PromptVariable>();
+  for (const match of content.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+    const variable = parseVariableToken(match[1]);
+    if (variable && !byName.has(variable.name)) byName.set(variable.name, variable);
+  }
+  return Array.from(byName.values());
+}
+
+export function renderTemplate(content: string, values: VariableValues) {
+  return content.replace(TEMPLATE_VARIABLE_PATTERN, (whole, token: string) => {
+    const variable = parseVariableToken(token);
+    if (!variable) return whole;
+    return values[variable.name] ?? variable.defaultValue;
+  });
+}
@@ -0,0 +1,71 @@
+/*
+ * Offline text statistics for the editor. Token counts are estimates: real tokenizers differ per
+ * model, but English prose averages about four characters per token and other scripts fewer.
+ */
+
+export type TextStats = {
+  characters: number;
+  words: number;
+  tokens: number;
+};
+
+export type ModelContext = {
+  id: string;
+  label: string;
+  contextTokens: number;
+};
+
+export type ContextWarning = {
+  model: ModelContext;
+  // Share of the context window the text would take, 0-1+.
+  usage: number;
+  level: "near" | "over";
+};
+
+export const MODEL_CONTEXTS: ModelContext[] = [
+  { id: "gpt-4o", label: "GPT-4o", contextTokens: 128000 },
+  { id: "gpt-4.1", label: "GPT-4.1", contextTokens: 1047576 },
+  { id: "o3", label: "OpenAI o3", contextTokens: 200000 },
+  { id: "claude", label: "Claude", contextTokens: 200000 },
+  { id: "gemini-pro", label: "Gemini Pro", contextTokens: 1048576 },
+  { id: "mistral-large", label: "Mistral Large", contextTokens: 128000 },
+  { id: "llama-3-8b", label: "Llama 3 8B", contextTokens: 8192 }
+];
+
+// A prompt past this share of the window leaves little room for the answer.
+export const CONTEXT_WARNING_SHARE = 0.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const SYMBOL_PATTERN = /[^\s\p{L}\p{N}]/gu;
+
+/** Roughly one token per 4 letters of ASCII words, per 3 of accented ones, per CJK character and per symbol. */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const cjk = word.match(CJK_PATTERN)?.length ?? 0;
+    const rest = word.length - cjk;
+    // Words with diacritics or in other scripts split into more pieces than plain ASCII ones.
+    const perToken = /^[\x00-\x7f]*$/.test(word) ? 4 : 3;
+    tokens += cjk + (rest > 0 ? Math.ceil(rest / perToken) : 0);
+  }
+  tokens += text.match(SYMBOL_PATTERN)?.length ?? 0;
+  return tokens;
+}
+
+export function textStats(text: string): TextStats {
+  return {
+    characters: text.length,
+    words: text.match(WORD_PATTERN)?.length ?? 0,
+    tokens: estimateTokens(text)
+  };
+}
+
+/** Models whose context window the text would fill past CONTEXT_WARNING_SHARE, fullest first. */
+export function contextWarnings(tokens: number): ContextWarning[] {
+  return MODEL_CONTEXTS.map((model) => ({ model, usage: tokens / model.contextTokens }))
+    .filter((entry) => entry.usage >= CONTEXT_WARNING_SHARE)
+    .map((entry) => ({ ...entry, level: entry.usage >= 1 ? ("over" as const) : ("near" as const) }))
+    .sort((a, b) => b.usage - a.usage);
+}
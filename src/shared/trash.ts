@@ -0,0 +1,62 @@
+import type { DbFile } from "./model";
+import { readStoredJson, writeStoredJson } from "./storage";
+
+export const TRASH_RETENTION_KEY = "prompter.trashRetentionDays";
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function normalizeTrashRetention(input: unknown): number {
+  return typeof input === "number" && Number.isFinite(input)
+    ? Math.min(MAX_TRASH_RETENTION_DAYS, Math.max(MIN_TRASH_RETENTION_DAYS, Math.round(input)))
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function loadTrashRetention(): Promise<number> {
+  return normalizeTrashRetention(await readStoredJson(TRASH_RETENTION_KEY));
+}
+
+export async function saveTrashRetention(days: number): Promise<void> {
+  await writeStoredJson(TRASH_RETENTION_KEY, normalizeTrashRetention(days));
+}
+
+export function moveToTrash(db: DbFile, ids: string[], now: string): DbFile {
+  const selected = new Set(ids);
+  const deleted = db.prompts.filter((p) => selected.has(p.id));
+  if (deleted.length === 0) return db;
+  return {
+    ...db,
+    prompts: db.prompts.filter((p) => !selected.has(p.id)),
+    trash: [...deleted.map((prompt) => ({ prompt, deletedAt: now })), ...db.trash]
+  };
+}
+
+// Restored prompts land in their old category when it still exists; normalizeDb handles the rest.
+export function restoreFromTrash(db: DbFile, ids: string[]): DbFile {
+  const selected = new Set(ids);
+  const restored = db.trash.filter((entry) => selected.has(entry.prompt.id)).map((entry) => entry.prompt);
+  if (restored.length === 0) return db;
+  return {
+    ...db,
+    prompts: [...db.prompts, ...restored],
+    trash: db.trash.filter((entry) => !selected.has(entry.prompt.id))
+  };
+}
+
+export function purgeFromTrash(db: DbFile, ids: string[]): DbFile {
+  const selected = new Set(ids);
+  return { ...db, trash: db.trash.filter((entry) => !selected.has(entry.prompt.id)) };
+}
+
+/** Drops entries deleted more than `days` ago; returns `db` itself when nothing expired. */
+export function expireTrash(db: DbFile, days: number, now: Date): DbFile {
+  const cutoff = now.getTime() - days * DAY_MS;
+  const trash = db.trash.filter((entry) => new Date(entry.deletedAt).getTime() >= cutoff);
+  return trash.length === db.trash.length ? db : { ...db, trash };
+}
+
+export function trashExpiresAt(deletedAt: string, days: number): Date {
+  return new Date(new Date(deletedAt).getTime() + days * DAY_MS);
+}
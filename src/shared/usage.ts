@@ -0,0 +1,120 @@
+import type { Prompt, VariableValues } from "./model";
+import { readStoredJson, writeStoredJson } from "./storage";
+
+/*
+ * Local usage log: one event per copy or insert, kept outside the library file so it is never
+ * exported or synced. `Prompt.useCount` is the durable counter; the log feeds the dashboard charts.
+ */
+
+export type UsageAction = "copy" | "insert";
+
+export type UsageEvent = {
+  promptId: string;
+  action: UsageAction;
+  at: string;
+  // Hostname the prompt was inserted on; null for copies made in the app.
+  site: string | null;
+  values: VariableValues;
+};
+
+export type UsageDay = {
+  // Local calendar day, YYYY-MM-DD.
+  day: string;
+  copies: number;
+  inserts: number;
+};
+
+export const USAGE_LOG_KEY = "prompter.usageLog";
+export const MAX_USAGE_EVENTS = 5000;
+export const STALE_DAYS_OPTIONS = [30, 60, 90, 180];
+export const DEFAULT_STALE_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalizeValues(input: unknown): VariableValues {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  return Object.fromEntries(
+    Object.entries(input as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+}
+
+export function normalizeUsageLog(input: unknown): UsageEvent[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((event): event is Record<string, unknown> => !!event && typeof event === "object")
+    .filter((event) => typeof event.promptId === "string" && typeof event.at === "string")
+    .map((event) => ({
+      promptId: event.promptId as string,
+      action: event.action === "insert" ? "insert" : "copy",
+      at: event.at as string,
+      site: typeof event.site === "string" && event.site ? event.site : null,
+      values: normalizeValues(event.values)
+    }));
+}
+
+export async function loadUsageLog(): Promise<UsageEvent[]> {
+  return normalizeUsageLog(await readStoredJson(USAGE_LOG_KEY));
+}
+
+// Events from content scripts arrive unchecked, so they are normalized like stored ones. Oldest
+// events are dropped past MAX_USAGE_EVENTS; useCount keeps counting regardless.
+export async function recordUsage(event: UsageEvent): Promise<void> {
+  const log = await loadUsageLog();
+  await writeStoredJson(USAGE_LOG_KEY, [...log, ...normalizeUsageLog([event])].slice(-MAX_USAGE_EVENTS));
+}
+
+export async function clearUsageLog(): Promise<void> {
+  await writeStoredJson(USAGE_LOG_KEY, []);
+}
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** One entry per day for the last `days` days, today last; days without events are zero. */
+export function usagePerDay(events: UsageEvent[], days: number, now: Date): UsageDay[] {
+  const result = Array.from({ length: days }, (_, index) => ({
+    day: dayKey(new Date(now.getTime() - (days - 1 - index) * DAY_MS)),
+    copies: 0,
+    inserts: 0
+  }));
+  const byDay = new Map(result.map((entry) => [entry.day, entry]));
+  for (const event of events) {
+    const entry = byDay.get(dayKey(new Date(event.at)));
+    if (!entry) continue;
+    if (event.action === "insert") entry.inserts += 1;
+    else entry.copies += 1;
+  }
+  return result;
+}
+
+/** Insert counts per site, most used first. */
+export function usageBySite(events: UsageEvent[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.site) counts.set(event.site, (counts.get(event.site) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+export function compareMostUsed(a: Prompt, b: Prompt) {
+  if (a.useCount !== b.useCount) return b.useCount - a.useCount;
+  return (b.lastUsedAt ?? "").localeCompare(a.lastUsedAt ?? "");
+}
+
+/** Never copied or inserted, oldest first. */
+export function neverUsedPrompts(prompts: Prompt[]): Prompt[] {
+  return prompts
+    .filter((prompt) => prompt.useCount === 0 && !prompt.lastUsedAt)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Used at some point, but not in the last `days` days; longest unused first. */
+export function stalePrompts(prompts: Prompt[], days: number, now: Date): Prompt[] {
+  const cutoff = now.getTime() - days * DAY_MS;
+  return prompts
+    .filter((prompt) => prompt.lastUsedAt && new Date(prompt.lastUsedAt).getTime() < cutoff)
+    .sort((a, b) => (a.lastUsedAt ?? "").localeCompare(b.lastUsedAt ?? ""));
+}
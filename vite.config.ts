@@ -6,6 +6,17 @@ export default defineConfig({
   base: "./",
   build: {
     outDir: "dist",
-    emptyOutDir: true
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        main: "index.html",
+        popup: "popup.html",
+        background: "src/background.ts"
+      },
+      output: {
+        // The manifest points at a fixed service worker path; everything else keeps hashed names.
+        entryFileNames: (chunk) => (chunk.name === "background" ? "background.js" : "assets/[name]-[hash].js")
+      }
+    }
   }
 });